@@ -1,41 +1,282 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { HomePage } from './components/HomePage';
 import { ComicDisplay } from './components/ComicDisplay';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { LoadingSpinner } from './components/LoadingSpinner';
-import { generateComicStory, regeneratePage } from './services/geminiService';
-import type { ComicPage, AppStatus, TextElement, ProgressUpdate } from './types';
+import { RecentSessions } from './components/RecentSessions';
+import { OutlineEditor } from './components/OutlineEditor';
+import { VariantGallery } from './components/VariantGallery';
+import { createComicOutline, createContinuationOutline, generateComicPages, insertComicPage, regeneratePage, regeneratePanel, reletterPage, retryComicPage } from './services/geminiService';
+import { downloadProjectFile, readProjectFile } from './services/projectService';
+import { downloadAiCallFixture, isRecordingAiCalls } from './services/providers';
+import { deleteSession, listSavedSessions, loadSession, saveSession } from './services/sessionStorageService';
+import type { ArtStyleId, CharacterProfile, ComicPage, PageInsertion, PageSize, PageVariant, AppStatus, TextElement, ProgressUpdate, PageAnnotationState, SavedSessionSummary, ExportFormat, GenerationRequest, StoryOutline } from './types';
+import { nanoid } from 'nanoid';
+import { DEFAULT_ART_STYLE } from './utils/artStyles';
+import { withNewVersion } from './utils/pageHistory';
+import { copyPage, insertPage, movePage, renumberPages } from './utils/pageOrder';
+import type { PanelRect } from './utils/panelLayouts';
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+const EXPORT_LABELS: Record<ExportFormat, { title: string; detail: string }> = {
+  pdf: { title: 'Generating PDF...', detail: 'Drawing each page and its lettering, please wait a moment.' },
+  cbz: { title: 'Generating CBZ...', detail: 'Flattening each page with its lettering, please wait a moment.' },
+  epub: { title: 'Generating EPUB...', detail: 'Laying out each page and its lettering, please wait a moment.' },
+};
+
+// A page whose candidates are waiting for the user to choose one
+interface PendingVariantPick {
+  pageNumber: number;
+  variants: PageVariant[];
+  resolve: (variantId: string) => void;
+}
 
 const App: React.FC = () => {
   const [comicPages, setComicPages] = useState<ComicPage[]>([]);
   const [status, setStatus] = useState<AppStatus>('idle');
   const [error, setError] = useState<string | null>(null);
-  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
   const [progress, setProgress] = useState<ProgressUpdate | null>(null);
+  const [storyPrompt, setStoryPrompt] = useState('');
+  const [characters, setCharacters] = useState<CharacterProfile[]>([]);
+  const [artStyle, setArtStyle] = useState<ArtStyleId>(DEFAULT_ART_STYLE);
+  const [pageStates, setPageStates] = useState<Record<string, PageAnnotationState>>({});
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [savedSessions, setSavedSessions] = useState<SavedSessionSummary[]>([]);
+  const [hasCheckedSessions, setHasCheckedSessions] = useState(false);
+  const [lastRequest, setLastRequest] = useState<GenerationRequest | null>(null);
+  const [storyOutline, setStoryOutline] = useState<StoryOutline | null>(null);
+  const [retryingPages, setRetryingPages] = useState<Record<string, string>>({});
+  const [variantPicks, setVariantPicks] = useState<PendingVariantPick[]>([]);
+  const [pageInsertion, setPageInsertion] = useState<PageInsertion | null>(null);
+  const generationControllerRef = useRef<AbortController | null>(null);
+  const retryControllersRef = useRef<Record<string, AbortController>>({});
+
+  // Offer to restore previous work instead of always landing on the home page
+  useEffect(() => {
+    listSavedSessions()
+      .then(sessions => {
+        setSavedSessions(sessions);
+        if (sessions.length > 0) {
+          setStatus(prev => (prev === 'idle' ? 'resume' : prev));
+        }
+      })
+      .catch(err => console.warn('⚠️ [Autosave] Could not read saved sessions:', err))
+      .finally(() => setHasCheckedSessions(true));
+  }, []);
+
+  // Autosave the current comic whenever pages, lettering or annotations change
+  useEffect(() => {
+    if (!sessionId || comicPages.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        await saveSession(sessionId, {
+          prompt: storyPrompt,
+          characters,
+          artStyle,
+          pages: comicPages,
+          annotationStates: pageStates,
+        });
+      } catch (err) {
+        console.warn('⚠️ [Autosave] Failed to save session:', err);
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [sessionId, comicPages, pageStates, characters, artStyle, storyPrompt]);
+
+  const handleGeneration = useCallback(async (prompt: string, cast: CharacterProfile[], style: ArtStyleId, pageSize: PageSize, numPages: number, isQualityCheckEnabled: boolean) => {
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
 
-  const handleGeneration = useCallback(async (prompt: string, files: File[], numPages: number, isQualityCheckEnabled: boolean) => {
     setStatus('loading');
     setError(null);
+    setSessionId(nanoid());
+    setStoryPrompt(prompt);
+    setCharacters(cast);
+    setArtStyle(style);
+    setLastRequest({ prompt, characters: cast, artStyle: style, pageSize, numPages, isQualityCheckEnabled });
+    setStoryOutline(null);
+    setComicPages([]);
+    setPageStates({});
     // FIX: The ProgressUpdate type requires a 'stage' property. Set to 'outline' for initial state.
     setProgress({ message: 'Warming up the AI...', progress: 0, stage: 'outline' });
 
-    const onProgressCallback = (update: ProgressUpdate) => {
-        setProgress(update);
+    try {
+      // Stop after the script so it can be reviewed before paying for any artwork
+      const outline = await createComicOutline(prompt, cast, style, pageSize, numPages, setProgress, controller.signal);
+      setStoryOutline(outline);
+      setStatus('review');
+    } catch (err) {
+      // A newer generation or Start Over has taken over; leave its state alone
+      if (generationControllerRef.current !== controller) return;
+
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+      }
+      setStatus('idle');
+    } finally {
+        if (generationControllerRef.current === controller) {
+          generationControllerRef.current = null;
+          setProgress(null);
+        }
+    }
+  }, []);
+
+  // Pages finishing at the same time queue up and are shown one at a time.
+  // A cancelled run takes its picks out of the queue and rejects them so no worker is left waiting.
+  const queueVariantPick = useCallback((pageNumber: number, variants: PageVariant[], signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const pick: PendingVariantPick = {
+      pageNumber,
+      variants,
+      resolve: variantId => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(variantId);
+      },
+    };
+    const onAbort = () => {
+      setVariantPicks(prev => prev.filter(p => p !== pick));
+      reject(signal.reason);
     };
+    signal.addEventListener('abort', onAbort, { once: true });
+    setVariantPicks(prev => [...prev, pick]);
+  }), []);
+
+  const handleApproveOutline = useCallback(async (outline: StoryOutline) => {
+    if (!lastRequest) return;
+
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    const completedPages: ComicPage[] = [];
+
+    setStoryOutline(outline);
+    setStatus('loading');
+    setError(null);
+    setProgress({ message: 'Warming up the AI...', progress: 10, stage: 'pages' });
 
     try {
-      const newPages = await generateComicStory(prompt, files, numPages, onProgressCallback, isQualityCheckEnabled);
+      const newPages = await generateComicPages(outline, characters, artStyle, lastRequest.pageSize, setProgress, lastRequest.isQualityCheckEnabled, {
+        signal: controller.signal,
+        onPageComplete: page => completedPages.push(page),
+        onChooseVariant: (pageNumber, variants) => queueVariantPick(pageNumber, variants, controller.signal),
+      });
       setComicPages(newPages);
       setStatus('editing');
     } catch (err) {
-      console.error(err);
-      setError(err instanceof Error ? err.message : 'An unknown error occurred.');
-      setStatus('idle');
+      if (generationControllerRef.current !== controller) return;
+
+      if (controller.signal.aborted) {
+        setComicPages([...completedPages].sort((a, b) => a.storyPrompt.page_number - b.storyPrompt.page_number));
+        setStatus('idle');
+      } else {
+        // The approved script is still there, so go back to it rather than the home page
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+        setStatus('review');
+      }
+    } finally {
+        if (generationControllerRef.current === controller) {
+          generationControllerRef.current = null;
+          setProgress(null);
+          setVariantPicks([]);
+        }
+    }
+  }, [lastRequest, characters, artStyle, queueVariantPick]);
+
+  // Writes the next pages from the story so far and draws them with the same cast and style
+  const handleContinueStory = useCallback(async (direction: string, numPages: number) => {
+    const lastPage = comicPages[comicPages.length - 1];
+    if (!lastPage) return;
+
+    const controller = new AbortController();
+    generationControllerRef.current = controller;
+    const completedPages: ComicPage[] = [];
+    const existingPages = comicPages.map(p => p.storyPrompt);
+    const isQualityCheckEnabled = lastRequest?.isQualityCheckEnabled ?? true;
+
+    setStatus('loading');
+    setError(null);
+    setProgress({ message: 'Reading the story so far...', progress: 0, stage: 'outline' });
+
+    try {
+      const outline = await createContinuationOutline(storyPrompt, existingPages, direction, characters, artStyle, lastPage.size, numPages, setProgress, controller.signal);
+      const newPages = await generateComicPages(outline, characters, artStyle, lastPage.size, setProgress, isQualityCheckEnabled, {
+        signal: controller.signal,
+        onPageComplete: page => completedPages.push(page),
+        onChooseVariant: (pageNumber, variants) => queueVariantPick(pageNumber, variants, controller.signal),
+      });
+      setComicPages(prevPages => renumberPages([...prevPages, ...newPages]));
+      setStoryOutline({ pages: [...existingPages, ...outline.pages] });
+      setStatus('editing');
+    } catch (err) {
+      if (generationControllerRef.current !== controller) return;
+
+      if (controller.signal.aborted) {
+        const finishedPages = [...completedPages].sort((a, b) => a.storyPrompt.page_number - b.storyPrompt.page_number);
+        setComicPages(prevPages => renumberPages([...prevPages, ...finishedPages]));
+      } else {
+        console.error(err);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred while continuing the story.');
+      }
+      // The existing comic is untouched, so go back to it
+      setStatus('editing');
     } finally {
-        setProgress(null);
+        if (generationControllerRef.current === controller) {
+          generationControllerRef.current = null;
+          setProgress(null);
+          setVariantPicks([]);
+        }
     }
+  }, [comicPages, storyPrompt, characters, artStyle, lastRequest, queueVariantPick]);
+
+  const handleCancelGeneration = () => {
+    generationControllerRef.current?.abort();
+  };
+
+  const handlePickVariant = (variantId: string) => {
+    const [current, ...rest] = variantPicks;
+    if (!current) return;
+    setVariantPicks(rest);
+    current.resolve(variantId);
+  };
+
+  // Swaps in another candidate; the lettering is kept where it is
+  const handleSelectVariant = useCallback((pageId: string, variantId: string) => {
+    setComicPages(prevPages => prevPages.map(p => {
+      const variant = p.variants?.find(v => v.id === variantId);
+      return p.id === pageId && variant ? withNewVersion(p, variant.imageUrl, { source: 'candidate' }) : p;
+    }));
+  }, []);
+
+  const handleReletterPage = useCallback(async (pageId: string): Promise<TextElement[] | null> => {
+    const page = comicPages.find(p => p.id === pageId);
+    if (!page || page.error) return null;
+
+    setError(null);
+    try {
+      return await reletterPage(page, characters);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while re-lettering the page.');
+      return null;
+    }
+  }, [comicPages, characters]);
+
+  // Restoring points the page back at an earlier image without adding a version
+  const handleRestoreVersion = useCallback((pageId: string, versionId: string) => {
+    setComicPages(prevPages => prevPages.map(p => {
+      const version = p.history?.find(v => v.id === versionId);
+      return p.id === pageId && version ? { ...p, imageUrl: version.imageUrl } : p;
+    }));
   }, []);
 
   const handleRegeneration = useCallback(async (pageId: string, annotatedImageB64: string, annotationText: string) => {
@@ -45,9 +286,11 @@ const App: React.FC = () => {
     setStatus('loading');
     setError(null);
     try {
-      const updatedPage = await regeneratePage(annotatedImageB64, annotationText);
+      const updatedPage = await regeneratePage(annotatedImageB64, annotationText, artStyle, pageToUpdate.size);
       setComicPages(prevPages => 
-        prevPages.map(p => (p.id === pageId ? { ...p, imageUrl: updatedPage.imageUrl } : p))
+        prevPages.map(p => (p.id === pageId
+          ? withNewVersion(p, updatedPage.imageUrl, { source: 'regenerated', annotationText, annotatedSnapshot: annotatedImageB64 })
+          : p))
       );
       setStatus('editing');
     } catch (err) {
@@ -55,7 +298,82 @@ const App: React.FC = () => {
       setError(err instanceof Error ? err.message : 'An unknown error occurred during regeneration.');
       setStatus('editing'); // Return to editing even if there's an error
     }
-  }, [comicPages]);
+  }, [comicPages, artStyle]);
+
+  // Redraws one panel and composites it back into the page; the lettering is left as it was
+  const handlePanelRegeneration = useCallback(async (pageId: string, annotatedImageB64: string, region: PanelRect, instructions: string) => {
+    const pageToUpdate = comicPages.find(p => p.id === pageId);
+    if (!pageToUpdate) return;
+
+    setStatus('loading');
+    setError(null);
+    try {
+      const updatedPage = await regeneratePanel(annotatedImageB64, pageToUpdate.imageUrl, region, instructions, artStyle, pageToUpdate.size);
+      setComicPages(prevPages =>
+        prevPages.map(p => (p.id === pageId
+          ? withNewVersion(p, updatedPage.imageUrl, { source: 'panel', annotationText: instructions, annotatedSnapshot: annotatedImageB64 })
+          : p))
+      );
+      setStatus('editing');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while redrawing the panel.');
+      setStatus('editing');
+    }
+  }, [comicPages, artStyle]);
+
+  // Re-runs drawing and lettering for a single page (e.g. a failed placeholder) without leaving the editor
+  const handleRetryPage = useCallback(async (pageId: string) => {
+    const pageToRetry = comicPages.find(p => p.id === pageId);
+    if (!pageToRetry || retryingPages[pageId] !== undefined) return;
+
+    const setRetryMessage = (message: string | null) => {
+      setRetryingPages(prev => {
+        const next = { ...prev };
+        if (message === null) delete next[pageId];
+        else next[pageId] = message;
+        return next;
+      });
+    };
+
+    const controller = new AbortController();
+    retryControllersRef.current[pageId] = controller;
+
+    setError(null);
+    setRetryMessage('Starting...');
+    try {
+      const { imageUrl, textElements, variants } = await retryComicPage(
+        pageToRetry.storyPrompt,
+        characters,
+        artStyle,
+        pageToRetry.size,
+        lastRequest?.isQualityCheckEnabled ?? true,
+        update => setRetryMessage(update.message),
+        controller.signal,
+      );
+      if (controller.signal.aborted) return;
+      setComicPages(prevPages =>
+        prevPages.map(p => (p.id === pageId
+          ? { ...withNewVersion(p, imageUrl, { source: 'generated' }), textElements, variants, error: undefined }
+          : p))
+      );
+    } catch (err) {
+      // Cancelled: the page keeps its earlier error and can be retried again
+      if (controller.signal.aborted) return;
+      console.error(err);
+      const message = err instanceof Error ? err.message : 'An unknown error occurred while retrying the page.';
+      setComicPages(prevPages => prevPages.map(p => (p.id === pageId ? { ...p, error: message } : p)));
+    } finally {
+      if (retryControllersRef.current[pageId] === controller) {
+        delete retryControllersRef.current[pageId];
+        setRetryMessage(null);
+      }
+    }
+  }, [comicPages, retryingPages, characters, artStyle, lastRequest]);
+
+  const handleCancelRetry = useCallback((pageId: string) => {
+    retryControllersRef.current[pageId]?.abort();
+  }, []);
 
   const handleUpdateTextElements = useCallback((pageId: string, updatedTextElements: TextElement[]) => {
       setComicPages(prevPages =>
@@ -63,8 +381,156 @@ const App: React.FC = () => {
       );
   }, []);
 
+  const handleMovePage = useCallback((from: number, to: number) => {
+    setComicPages(prevPages => movePage(prevPages, from, to));
+  }, []);
+
+  // The copy goes right after the original and keeps its annotations
+  const handleDuplicatePage = useCallback((pageId: string) => {
+    const source = comicPages.find(p => p.id === pageId);
+    if (!source) return;
+
+    const copy = copyPage(source);
+    setComicPages(prevPages => insertPage(prevPages, prevPages.findIndex(p => p.id === pageId) + 1, copy));
+    setPageStates(prev => (prev[pageId] ? { ...prev, [copy.id]: prev[pageId] } : prev));
+  }, [comicPages]);
+
+  const handleDeletePage = useCallback((pageId: string) => {
+    setComicPages(prevPages => renumberPages(prevPages.filter(p => p.id !== pageId)));
+    setPageStates(prev => {
+      const next = { ...prev };
+      delete next[pageId];
+      return next;
+    });
+  }, []);
+
+  // Writes and draws a page from a short prompt, using the pages around it as story context
+  const handleInsertPage = useCallback(async (afterPageId: string | null, prompt: string) => {
+    if (pageInsertion) return;
+
+    const index = afterPageId === null ? 0 : comicPages.findIndex(p => p.id === afterPageId) + 1;
+    const previous = comicPages[index - 1];
+    const next = comicPages[index];
+    const pageSize = (previous ?? next)?.size ?? lastRequest?.pageSize;
+    if (!pageSize) return;
+
+    setError(null);
+    setPageInsertion({ afterPageId, message: 'Starting...' });
+    try {
+      const page = await insertComicPage(
+        prompt,
+        { previous: previous?.storyPrompt, next: next?.storyPrompt },
+        characters,
+        artStyle,
+        pageSize,
+        lastRequest?.isQualityCheckEnabled ?? true,
+        update => setPageInsertion({ afterPageId, message: update.message }),
+      );
+      // Pages may have moved while it was drawn, so find its neighbour again
+      setComicPages(prevPages => {
+        const anchorIndex = afterPageId === null ? 0 : prevPages.findIndex(p => p.id === afterPageId) + 1;
+        return insertPage(prevPages, anchorIndex > 0 || afterPageId === null ? anchorIndex : prevPages.length, page);
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while adding the page.');
+    } finally {
+      setPageInsertion(null);
+    }
+  }, [comicPages, pageInsertion, characters, artStyle, lastRequest]);
+
+  const handlePageStateChange = useCallback((pageId: string, pageState: PageAnnotationState) => {
+      setPageStates(prev => ({ ...prev, [pageId]: pageState }));
+  }, []);
+
+  const handleSaveProject = useCallback(() => {
+    try {
+      downloadProjectFile({
+        prompt: storyPrompt,
+        characters,
+        artStyle,
+        pages: comicPages,
+        annotationStates: pageStates,
+      });
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while saving the project.');
+    }
+  }, [comicPages, pageStates, characters, artStyle, storyPrompt]);
+
+  const handleOpenProject = useCallback(async (file: File) => {
+    setError(null);
+    try {
+      const project = await readProjectFile(file);
+      setSessionId(nanoid());
+      setStoryPrompt(project.prompt);
+      setCharacters(project.characters);
+      setArtStyle(project.artStyle);
+      setPageStates(project.annotationStates);
+      setComicPages(project.pages);
+      setStatus('editing');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while opening the project.');
+    }
+  }, []);
+
+  const handleRestoreSession = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      const project = await loadSession(id);
+      setSessionId(id);
+      setStoryPrompt(project.prompt);
+      setCharacters(project.characters);
+      setArtStyle(project.artStyle);
+      setPageStates(project.annotationStates);
+      setComicPages(project.pages);
+      setStatus('editing');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while restoring the session.');
+    }
+  }, []);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+      const remaining = savedSessions.filter(s => s.id !== id);
+      setSavedSessions(remaining);
+      if (remaining.length === 0) {
+        setStatus('idle');
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while deleting the session.');
+    }
+  }, [savedSessions]);
+
+  const handleDownloadFixture = () => {
+    try {
+      downloadAiCallFixture();
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while downloading the AI fixture.');
+    }
+  };
+
   const handleStartOver = () => {
+    const controller = generationControllerRef.current;
+    generationControllerRef.current = null;
+    controller?.abort();
+    Object.keys(retryControllersRef.current).forEach(pageId => retryControllersRef.current[pageId].abort());
+    retryControllersRef.current = {};
+    setProgress(null);
+    setLastRequest(null);
+    setStoryOutline(null);
+    setRetryingPages({});
+    setSessionId(null);
     setComicPages([]);
+    setPageStates({});
+    setStoryPrompt('');
+    setCharacters([]);
+    setArtStyle(DEFAULT_ART_STYLE);
     setStatus('idle');
     setError(null);
   };
@@ -72,23 +538,81 @@ const App: React.FC = () => {
 
   return (
     <div className="bg-white text-zinc-900 font-sans min-h-screen flex flex-col relative">
-      {isDownloadingPdf && (
+      {exportingFormat && (
         <div className="fixed inset-0 bg-black/50 z-[100] flex flex-col items-center justify-center backdrop-blur-sm">
             <div className="w-16 h-16 border-4 border-t-4 border-zinc-200 border-t-indigo-600 rounded-full animate-spin"></div>
-            <p className="text-white font-medium font-sans text-lg mt-4">Generating PDF...</p>
-            <p className="text-sm text-zinc-300 text-center max-w-sm">Capturing each page, please wait a moment.</p>
+            <p className="text-white font-medium font-sans text-lg mt-4">{EXPORT_LABELS[exportingFormat].title}</p>
+            <p className="text-sm text-zinc-300 text-center max-w-sm">{EXPORT_LABELS[exportingFormat].detail}</p>
         </div>
       )}
-      <Header onStartOver={handleStartOver} showStartOver={status !== 'idle'}/>
+      <Header
+        onStartOver={handleStartOver}
+        showStartOver={status === 'loading' || status === 'review' || status === 'editing'}
+        onDownloadFixture={isRecordingAiCalls() ? handleDownloadFixture : undefined}
+      />
       <main className="flex-grow flex flex-col items-center justify-center p-4 sm:p-6 lg:p-8">
-        {status === 'loading' && <LoadingSpinner progress={progress} />}
-        {status === 'idle' && <HomePage onGenerate={handleGeneration} />}
+        {status === 'loading' && (
+          <LoadingSpinner
+            progress={progress}
+            onCancel={generationControllerRef.current ? handleCancelGeneration : undefined}
+          />
+        )}
+        {status === 'loading' && variantPicks.length > 0 && (
+          <VariantGallery
+            pageNumber={variantPicks[0].pageNumber}
+            variants={variantPicks[0].variants}
+            onPick={handlePickVariant}
+          />
+        )}
+        {status === 'resume' && (
+          <RecentSessions
+            sessions={savedSessions}
+            onRestore={handleRestoreSession}
+            onDelete={handleDeleteSession}
+            onStartNew={() => setStatus('idle')}
+          />
+        )}
+        {status === 'review' && storyOutline && (
+          <OutlineEditor
+            outline={storyOutline}
+            characters={characters}
+            onApprove={handleApproveOutline}
+            onBack={() => setStatus('idle')}
+          />
+        )}
+        {status === 'idle' && hasCheckedSessions && (
+          <HomePage
+            onGenerate={handleGeneration}
+            onOpenProject={handleOpenProject}
+            initialRequest={lastRequest}
+            keptPageCount={comicPages.length}
+            onViewKeptPages={() => setStatus('editing')}
+          />
+        )}
         {status === 'editing' && comicPages.length > 0 && (
           <ComicDisplay 
             pages={comicPages} 
             onRegeneratePage={handleRegeneration}
+            onRegeneratePanel={handlePanelRegeneration}
+            onRetryPage={handleRetryPage}
+            onCancelRetry={handleCancelRetry}
+            onSelectVariant={handleSelectVariant}
+            onRestoreVersion={handleRestoreVersion}
+            onReletterPage={handleReletterPage}
+            onMovePage={handleMovePage}
+            onDuplicatePage={handleDuplicatePage}
+            onDeletePage={handleDeletePage}
+            onInsertPage={handleInsertPage}
+            pageInsertion={pageInsertion}
+            onContinueStory={handleContinueStory}
+            retryingPages={retryingPages}
             onUpdateTextElements={handleUpdateTextElements}
-            setIsDownloadingPdf={setIsDownloadingPdf}
+            pageStates={pageStates}
+            onPageStateChange={handlePageStateChange}
+            onSaveProject={handleSaveProject}
+            prompt={storyPrompt}
+            setExportingFormat={setExportingFormat}
+            onExportError={setError}
           />
         )}
         {error && <div className="mt-4 text-red-600 bg-red-100 p-3 rounded-lg">{error}</div>}
@@ -1,6 +1,8 @@
-import React, { useRef, useEffect, RefObject, useCallback } from 'react';
+import React, { useRef, useEffect, useState, RefObject, useCallback } from 'react';
 import type { ComicPage, AnnotationObject, Tool, TextAnnotation } from '../types';
 import { TextElementDisplay } from './TextElementDisplay';
+import { detectPanels } from '../utils/panelDetection';
+import type { PanelRect } from '../utils/panelLayouts';
 
 interface AnnotationCanvasProps {
     activePage: ComicPage;
@@ -28,6 +30,7 @@ interface AnnotationCanvasProps {
     editingTextElementId: string | null;
     setEditingTextElementId: (id: string | null) => void;
     commitActiveAnnotation: () => void;
+    overlay?: React.ReactNode; // Covers the page, e.g. the placeholder for a failed page
 }
 
 export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({ 
@@ -50,13 +53,27 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
     onTextElementSelect,
     editingTextElementId,
     setEditingTextElementId,
-    commitActiveAnnotation
+    commitActiveAnnotation,
+    overlay
 }) => {
     const textInputRef = useRef<HTMLTextAreaElement>(null);
     const editorRef = useRef<HTMLDivElement>(null);
 
+    const [panelRects, setPanelRects] = useState<PanelRect[]>([]);
+
     const activeAnnotation = annotations.find(a => a.id === activeAnnotationId) as TextAnnotation | undefined;
 
+    // Dragged bubbles snap into the panels found in the page art
+    useEffect(() => {
+        setPanelRects([]);
+        if (!activePage.imageUrl) return;
+        let cancelled = false;
+        detectPanels(activePage.imageUrl, activePage.size).then(panels => {
+            if (!cancelled) setPanelRects(panels);
+        });
+        return () => { cancelled = true; };
+    }, [activePage.imageUrl, activePage.size]);
+
     useEffect(() => {
         const img = imageContainerRef.current?.querySelector('img');
         if (img && img.complete) {
@@ -100,9 +117,11 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
             <div
                 ref={imageContainerRef}
                 className="relative shadow-2xl rounded-lg border-4 border-zinc-200 flex-shrink-0"
-                style={{ width: '1024px', height: '1024px' }}
+                style={{ width: `${activePage.size.width}px`, height: `${activePage.size.height}px` }}
             >
-                <img src={activePage.imageUrl} alt="Generated comic page" className="w-full h-full object-contain rounded-lg" />
+                {activePage.imageUrl && (
+                    <img src={activePage.imageUrl} alt="Generated comic page" className="w-full h-full object-contain rounded-lg" />
+                )}
                 <canvas 
                     ref={canvasRef}
                     {...eventHandlers}
@@ -110,6 +129,8 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
                 />
                 <TextElementDisplay 
                     textElements={activePage.textElements}
+                    pageSize={activePage.size}
+                    panels={panelRects}
                     onUpdate={onTextUpdate}
                     onPositionUpdate={onPositionUpdate}
                     onAnchorUpdate={onAnchorUpdate}
@@ -204,6 +225,7 @@ export const AnnotationCanvas: React.FC<AnnotationCanvasProps> = ({
                         </div>
                     </div>
                 )}
+                {overlay && <div className="absolute inset-0 z-20 rounded-lg">{overlay}</div>}
             </div>
         </div>
     );
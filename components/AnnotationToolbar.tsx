@@ -1,5 +1,5 @@
 import React from 'react';
-import type { Tool } from '../types';
+import type { Tool, ReadingDirection } from '../types';
 
 interface ToolIconProps {
     isActive: boolean;
@@ -39,7 +39,17 @@ interface AnnotationToolbarProps {
     historyLength: number;
     hasAnnotations: boolean;
     handleRegenerateClick: () => void;
+    handleRegeneratePanelClick: () => void;
+    canRegeneratePanel: boolean;
+    handleReletterClick: () => void;
+    isReLettering: boolean;
+    canReletter: boolean;
     handleDownload: () => void;
+    handleDownloadCbz: () => void;
+    handleDownloadEpub: () => void;
+    readingDirection: ReadingDirection;
+    setReadingDirection: (direction: ReadingDirection) => void;
+    handleSaveProject: () => void;
     handleShowHelp: () => void;
 }
 
@@ -53,7 +63,17 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
     historyLength,
     hasAnnotations,
     handleRegenerateClick,
+    handleRegeneratePanelClick,
+    canRegeneratePanel,
+    handleReletterClick,
+    isReLettering,
+    canReletter,
     handleDownload,
+    handleDownloadCbz,
+    handleDownloadEpub,
+    readingDirection,
+    setReadingDirection,
+    handleSaveProject,
     handleShowHelp
 }) => {
     return (
@@ -113,9 +133,46 @@ export const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
                          <ActionIcon title="Regenerate Image" onClick={handleRegenerateClick} disabled={!hasAnnotations}>
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="m21.64 3.64-1.28-1.28a1.21 1.21 0 0 0-1.72 0L2.36 18.64a1.21 1.21 0 0 0 0 1.72l1.28 1.28a1.2 1.2 0 0 0 1.72 0L21.64 5.36a1.2 1.2 0 0 0 0-1.72Z"/><path d="m14 7 3 3"/><path d="M5 6v4"/><path d="M19 14v4"/><path d="M10 2v2"/><path d="M7 8H3"/><path d="M21 18h-4"/><path d="M11 3H9"/></svg>
                          </ActionIcon>
+                         <ActionIcon title="Regenerate a Panel" onClick={handleRegeneratePanelClick} disabled={!canRegeneratePanel}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect width="18" height="18" x="3" y="3" rx="2"/><path d="M3 12h18"/><path d="M12 3v9"/><path d="m15 15 3 3"/><path d="m18 15-3 3"/></svg>
+                         </ActionIcon>
+                         <ActionIcon title={isReLettering ? 'Re-lettering...' : 'Re-letter This Page'} onClick={handleReletterClick} disabled={!canReletter || isReLettering}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 ${isReLettering ? 'animate-pulse' : ''}`} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M7.9 20A9 9 0 1 0 4 16.1L2 22Z"/><path d="M8 12h.01"/><path d="M12 12h.01"/><path d="M16 12h.01"/></svg>
+                         </ActionIcon>
+                    </div>
+                </div>
+
+                <div className="h-px bg-zinc-200 my-0"></div>
+
+                {/* Export Section */}
+                <div>
+                    <p className="text-sm font-medium text-zinc-600 text-center mb-2">Export</p>
+                    <div className="flex justify-center mb-3">
+                        <div className="inline-flex rounded-lg bg-zinc-100 p-0.5 text-xs font-medium" title="Reading direction used by comic readers">
+                            {(['ltr', 'rtl'] as ReadingDirection[]).map(direction => (
+                                <button
+                                    key={direction}
+                                    onClick={() => setReadingDirection(direction)}
+                                    className={`px-2 py-1 rounded-md transition-colors ${readingDirection === direction ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'}`}
+                                >
+                                    {direction === 'ltr' ? 'Left → Right' : 'Right → Left'}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap justify-center items-center gap-2">
                          <ActionIcon title="Download PDF" onClick={handleDownload}>
                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" x2="12" y1="15" y2="3"/></svg>
                          </ActionIcon>
+                         <ActionIcon title="Download CBZ (comic reader archive)" onClick={handleDownloadCbz}>
+                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20"/></svg>
+                         </ActionIcon>
+                         <ActionIcon title="Download EPUB (searchable, read-aloud lettering)" onClick={handleDownloadEpub}>
+                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"/><path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"/></svg>
+                         </ActionIcon>
+                         <ActionIcon title="Save Project" onClick={handleSaveProject}>
+                             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"/><polyline points="17 21 17 13 7 13 7 21"/><polyline points="7 3 7 8 15 8"/></svg>
+                         </ActionIcon>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { nanoid } from 'nanoid';
+import type { CharacterProfile } from '../types';
+import { filesToReferenceImages } from '../services/projectService';
+
+interface CastEditorProps {
+    characters: CharacterProfile[];
+    onChange: (characters: CharacterProfile[]) => void;
+}
+
+export const createCharacter = (changes: Partial<CharacterProfile> = {}): CharacterProfile => ({
+    id: nanoid(),
+    name: '',
+    description: '',
+    referenceImages: [],
+    ...changes,
+});
+
+const inputClassName = 'w-full bg-white border border-zinc-200 rounded-lg px-3 py-2 text-sm text-zinc-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-400';
+
+export const CastEditor: React.FC<CastEditorProps> = ({ characters, onChange }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [uploadTargetId, setUploadTargetId] = useState<string | null>(null);
+
+    const updateCharacter = (id: string, changes: Partial<CharacterProfile>) => {
+        onChange(characters.map(character => (character.id === id ? { ...character, ...changes } : character)));
+    };
+
+    const handleAddImages = (id: string) => {
+        setUploadTargetId(id);
+        fileInputRef.current?.click();
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from((event.target.files as FileList | null) ?? []).filter(file => file.type.startsWith('image/'));
+        if (event.target) event.target.value = '';
+        const target = characters.find(character => character.id === uploadTargetId);
+        if (!target || files.length === 0) return;
+
+        const images = await filesToReferenceImages(files);
+        updateCharacter(target.id, { referenceImages: [...target.referenceImages, ...images] });
+    };
+
+    return (
+        <div className="w-full flex flex-col gap-4 text-left">
+            <p className="text-sm font-medium text-zinc-600">Cast</p>
+            {characters.map((character, index) => (
+                <div key={character.id} className="bg-white border border-zinc-200 rounded-2xl p-4 flex flex-col sm:flex-row gap-4">
+                    <div className="flex-1 flex flex-col gap-2">
+                        <input
+                            value={character.name}
+                            onChange={e => updateCharacter(character.id, { name: e.target.value })}
+                            placeholder={`Character ${index + 1} name`}
+                            className={inputClassName}
+                        />
+                        <textarea
+                            value={character.description}
+                            onChange={e => updateCharacter(character.id, { description: e.target.value })}
+                            placeholder="Appearance, e.g. short girl with a red scarf and messy black hair"
+                            rows={2}
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div className="flex flex-wrap items-start gap-2 sm:w-64">
+                        {character.referenceImages.map((image, imageIndex) => (
+                            <div key={imageIndex} className="relative group w-16 h-16">
+                                <img src={image.dataUrl} alt={`${character.name || `Character ${index + 1}`} reference ${imageIndex + 1}`} className="w-full h-full object-cover rounded-lg border border-zinc-200" />
+                                <button
+                                    type="button"
+                                    onClick={() => updateCharacter(character.id, { referenceImages: character.referenceImages.filter((_, i) => i !== imageIndex) })}
+                                    className="absolute -top-2 -right-2 w-5 h-5 bg-zinc-800 text-white rounded-full flex items-center justify-center text-xs font-bold opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500"
+                                    aria-label="Remove image"
+                                >
+                                    &times;
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            type="button"
+                            onClick={() => handleAddImages(character.id)}
+                            className="w-16 h-16 flex items-center justify-center text-2xl text-zinc-400 border border-dashed border-zinc-300 rounded-lg hover:bg-zinc-50 hover:text-indigo-600 transition-colors"
+                            aria-label="Add reference images"
+                        >
+                            +
+                        </button>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={() => onChange(characters.filter(c => c.id !== character.id))}
+                        className="self-start px-2 py-1 text-xs font-medium text-red-600 rounded-md hover:bg-red-50 transition-colors"
+                    >
+                        Remove
+                    </button>
+                </div>
+            ))}
+            <button
+                type="button"
+                onClick={() => onChange([...characters, createCharacter()])}
+                className="self-start px-4 py-2 text-sm font-medium text-indigo-600 border border-dashed border-indigo-300 rounded-full hover:bg-indigo-50 transition-colors"
+            >
+                + Add character
+            </button>
+            <input type="file" className="hidden" ref={fileInputRef} multiple accept="image/*" onChange={handleFileChange} />
+        </div>
+    );
+};
@@ -1,33 +1,64 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { ComicPage, TextAnnotation, AnnotationObject, TextElement } from '../types';
+import type { ComicPage, PageInsertion, Rectangle, TextAnnotation, TextElement, PageAnnotationState, ExportFormat, ReadingDirection } from '../types';
 import { useAnnotations } from '../hooks/useAnnotations';
 import { AnnotationToolbar } from './AnnotationToolbar';
 import { AnnotationCanvas } from './AnnotationCanvas';
-import jsPDF from 'jspdf';
-import { parsePx } from '../utils/canvas';
+import { FailedPagePlaceholder } from './FailedPagePlaceholder';
+import { VariantGallery } from './VariantGallery';
+import { VersionHistory } from './VersionHistory';
+import { ReletterReview, type LetteringChoice } from './ReletterReview';
+import { PanelRegenerateDialog } from './PanelRegenerateDialog';
+import { PageStrip } from './PageStrip';
+import type { PanelRect } from '../utils/panelLayouts';
+import { downloadBlob } from '../utils/download';
+import { createCbzArchive } from '../services/cbzExport';
+import { createEpubArchive } from '../services/epubExport';
+import { createVectorPdf } from '../services/pdfExport';
 
 
 interface ComicDisplayProps {
   pages: ComicPage[];
   onRegeneratePage: (pageId: string, annotatedImageB64: string, annotationText: string) => void;
+  onRegeneratePanel: (pageId: string, annotatedImageB64: string, region: PanelRect, instructions: string) => void;
+  onRetryPage: (pageId: string) => void;
+  onCancelRetry: (pageId: string) => void;
+  onSelectVariant: (pageId: string, variantId: string) => void;
+  onRestoreVersion: (pageId: string, versionId: string) => void;
+  onReletterPage: (pageId: string) => Promise<TextElement[] | null>; // Resolves to the bubbles at their new positions
+  onMovePage: (from: number, to: number) => void;
+  onDuplicatePage: (pageId: string) => void;
+  onDeletePage: (pageId: string) => void;
+  onInsertPage: (afterPageId: string | null, prompt: string) => void;
+  pageInsertion: PageInsertion | null;
+  onContinueStory: (direction: string, numPages: number) => void;
+  retryingPages: Record<string, string>; // pageId -> progress message
   onUpdateTextElements: (pageId: string, updatedTextElements: TextElement[]) => void;
-  setIsDownloadingPdf: (isDownloading: boolean) => void;
+  pageStates: Record<string, PageAnnotationState>;
+  onPageStateChange: (pageId: string, pageState: PageAnnotationState) => void;
+  onSaveProject: () => void;
+  prompt: string;
+  setExportingFormat: (format: ExportFormat | null) => void;
+  onExportError: (message: string | null) => void; // null clears the message when a new export starts
 }
 
-type PageState = {
-  annotations: AnnotationObject[];
-  history: AnnotationObject[][];
-  historyIndex: number;
-};
-
-export const ComicDisplay: React.FC<ComicDisplayProps> = ({ pages, onRegeneratePage, onUpdateTextElements, setIsDownloadingPdf }) => {
-  const [currentPageIndex, setCurrentPageIndex] = useState(0);
-  const [allPagesState, setAllPagesState] = useState<Record<string, PageState>>({});
+export const ComicDisplay: React.FC<ComicDisplayProps> = ({ pages, onRegeneratePage, onRegeneratePanel, onRetryPage, onCancelRetry, onSelectVariant, onRestoreVersion, onReletterPage, onMovePage, onDuplicatePage, onDeletePage, onInsertPage, pageInsertion, onContinueStory, retryingPages, onUpdateTextElements, pageStates, onPageStateChange, onSaveProject, prompt, setExportingFormat, onExportError }) => {
+  // Tracked by id so the open page stays open when pages are moved or inserted around it
+  const [activePageId, setActivePageId] = useState(pages[0].id);
+  const [readingDirection, setReadingDirection] = useState<ReadingDirection>('ltr');
   const [selectedTextElementId, setSelectedTextElementId] = useState<string | null>(null);
   const [editingTextElementId, setEditingTextElementId] = useState<string | null>(null);
   const [showHelpModal, setShowHelpModal] = useState(false);
+  const [showVariants, setShowVariants] = useState(false);
+  const [isReLettering, setIsReLettering] = useState(false);
+  // Old and new lettering of the page under review, with the position picked for each moved bubble
+  const [reletter, setReletter] = useState<{ pageId: string; previous: TextElement[]; proposed: TextElement[]; choices: Record<string, LetteringChoice> } | null>(null);
+  // The annotated page and drawn areas offered when picking a panel to redraw
+  const [panelPicker, setPanelPicker] = useState<{ annotatedImageB64: string; drawnRegions: PanelRect[]; annotationText: string } | null>(null);
   
+  const currentPageIndex = Math.max(0, pages.findIndex(page => page.id === activePageId));
   const activePage = pages[currentPageIndex];
+  // Failed placeholder pages have no artwork to export
+  const exportablePages = pages.filter(page => !page.error);
   
   // FIX: The useAnnotations hook expects 2 arguments, but was called with 3. Removed the extra argument.
   const {
@@ -53,9 +84,16 @@ export const ComicDisplay: React.FC<ComicDisplayProps> = ({ pages, onRegenerateP
     commitActiveAnnotation,
   } = useAnnotations(activePage.imageUrl, editingTextElementId);
 
+  // Saved page states are read through a ref so that syncing edits back up
+  // doesn't re-trigger the load effect below.
+  const pageStatesRef = useRef(pageStates);
+  pageStatesRef.current = pageStates;
+  const isLoadingPageState = useRef(false);
+
   // Load state when page changes
   useEffect(() => {
-    const savedState = allPagesState[activePage.id];
+    isLoadingPageState.current = true;
+    const savedState = pageStatesRef.current[activePage.id];
     if (savedState) {
       setAnnotations(savedState.annotations);
       setHistory(savedState.history);
@@ -65,25 +103,41 @@ export const ComicDisplay: React.FC<ComicDisplayProps> = ({ pages, onRegenerateP
     }
     setEditingTextElementId(null);
     setSelectedTextElementId(null);
-  }, [activePage.id, setAnnotations, setHistory, setHistoryIndex, clearCanvas, allPagesState]);
+  }, [activePage.id, setAnnotations, setHistory, setHistoryIndex, clearCanvas]);
+
+  // Keep the parent's copy of this page's annotation state current
+  useEffect(() => {
+    if (isLoadingPageState.current) {
+      isLoadingPageState.current = false;
+      return;
+    }
+    onPageStateChange(activePage.id, { annotations, history, historyIndex });
+  }, [annotations, history, historyIndex]);
 
 
   const handlePageChange = (newIndex: number) => {
     if (newIndex < 0 || newIndex >= pages.length) return;
-
-    // Save current annotation state before switching
-    setAllPagesState(prev => ({
-      ...prev,
-      [activePage.id]: { annotations, history, historyIndex }
-    }));
     
     // Clear text element selection when changing pages
     setSelectedTextElementId(null);
     setEditingTextElementId(null);
+    setReletter(null);
+    setPanelPicker(null);
     
-    setCurrentPageIndex(newIndex);
+    setActivePageId(pages[newIndex].id);
   };
   
+  const handleDuplicatePage = (index: number) => {
+      onDuplicatePage(pages[index].id);
+  };
+
+  const handleDeletePage = (index: number) => {
+      if (pages.length === 1 || !window.confirm(`Delete page ${index + 1}? This cannot be undone.`)) return;
+      // Open the page that takes its place, or the new last page
+      if (index === currentPageIndex) handlePageChange(index < pages.length - 1 ? index + 1 : index - 1);
+      onDeletePage(pages[index].id);
+  };
+
   const handleTextUpdate = useCallback((elementId: string, newText: string) => {
       const newElements = activePage.textElements.map(el =>
           el.id === elementId ? { ...el, text: newText } : el
@@ -120,104 +174,122 @@ export const ComicDisplay: React.FC<ComicDisplayProps> = ({ pages, onRegenerateP
       }
   }, []);
 
+  // Moves each reviewed bubble to the position picked for it, leaving any text edits alone
+  const applyLetteringChoices = (review: NonNullable<typeof reletter>) => {
+      const newElements = activePage.textElements.map(el => {
+          const choice = review.choices[el.id];
+          const source = choice && (choice === 'new' ? review.proposed : review.previous).find(other => other.id === el.id);
+          return source ? { ...el, x: source.x, y: source.y, anchor: source.anchor } : el;
+      });
+      onUpdateTextElements(review.pageId, newElements);
+      setReletter(review);
+  };
+
+  const handleReletterClick = async () => {
+      const page = activePage;
+      setIsReLettering(true);
+      const proposed = await onReletterPage(page.id);
+      setIsReLettering(false);
+      if (!proposed) return;
+
+      const choices: Record<string, LetteringChoice> = {};
+      proposed.forEach(el => {
+          const old = page.textElements.find(other => other.id === el.id);
+          const moved = old && (old.x !== el.x || old.y !== el.y || old.anchor?.x !== el.anchor?.x || old.anchor?.y !== el.anchor?.y);
+          if (moved) choices[el.id] = 'new';
+      });
+      applyLetteringChoices({ pageId: page.id, previous: page.textElements, proposed, choices });
+  };
+
+  const handleDiscardLettering = () => {
+      if (!reletter) return;
+      applyLetteringChoices({ ...reletter, choices: Object.fromEntries(Object.keys(reletter.choices).map(id => [id, 'old' as LetteringChoice])) });
+      setReletter(null);
+  };
+
+  const getAnnotationText = () => annotations
+      .filter((a): a is TextAnnotation => a.type === 'text' && a.text.trim() !== '')
+      .map((a, index) => {
+         const textAnnotations = annotations.filter(ann => ann.type === 'text');
+         const number = textAnnotations.findIndex(ta => ta.id === a.id) + 1;
+         return `${number}: ${a.text}`
+      })
+      .join('\n');
+
   const handleRegenerateClick = async () => {
       const annotatedImageB64 = await getAnnotatedImage();
       if (!annotatedImageB64) return;
 
-      const annotationText = annotations
-          .filter((a): a is TextAnnotation => a.type === 'text' && a.text.trim() !== '')
-          .map((a, index) => {
-             const textAnnotations = annotations.filter(ann => ann.type === 'text');
-             const number = textAnnotations.findIndex(ta => ta.id === a.id) + 1;
-             return `${number}: ${a.text}`
-          })
-          .join('\n');
-      
-      onRegeneratePage(activePage.id, annotatedImageB64, annotationText);
+      onRegeneratePage(activePage.id, annotatedImageB64, getAnnotationText());
+  };
+
+  const handleRegeneratePanelClick = async () => {
+      const annotatedImageB64 = await getAnnotatedImage() ?? activePage.imageUrl;
+      const canvas = canvasRef.current;
+      // Annotations are stored in the canvas's display pixels; panels use page pixels
+      const scaleX = canvas ? activePage.size.width / canvas.width : 1;
+      const scaleY = canvas ? activePage.size.height / canvas.height : 1;
+      const drawnRegions = annotations
+          .filter((a): a is Rectangle => a.type === 'rectangle')
+          .map(a => ({
+              // Rectangles drawn up or left have a negative size
+              x: Math.min(a.x, a.x + a.width) * scaleX,
+              y: Math.min(a.y, a.y + a.height) * scaleY,
+              width: Math.abs(a.width) * scaleX,
+              height: Math.abs(a.height) * scaleY,
+          }))
+          .filter(rect => rect.width >= 16 && rect.height >= 16);
+      setPanelPicker({ annotatedImageB64, drawnRegions, annotationText: getAnnotationText() });
   };
   
 const handleDownload = useCallback(async () => {
-    setIsDownloadingPdf(true);
-    const container = imageContainerRef.current;
-
+    setExportingFormat('pdf');
+    onExportError(null);
     try {
-        if (container) {
-            container.classList.add('pdf-export-mode');
-        }
-
-        setSelectedTextElementId(null);
-        setEditingTextElementId(null);
-        setActiveAnnotationId(null);
-        await new Promise<void>(resolve => setTimeout(resolve, 50));
-
-        const pdf = new jsPDF({
-            orientation: 'p',
-            unit: 'px',
-            format: [1024, 1024]
-        });
-
-        const { default: html2canvas } = await import('https://aistudiocdn.com/html2canvas@^1.4.1');
-        const originalPageIndex = currentPageIndex;
-        const currentPages = pages;
-
-        for (let i = 0; i < currentPages.length; i++) {
-            if (currentPageIndex !== i) {
-                setCurrentPageIndex(i);
-                
-                await new Promise<void>(resolve => {
-                    requestAnimationFrame(() => {
-                        setTimeout(resolve, 250);
-                    });
-                });
-            }
-
-            const containerToCapture = imageContainerRef.current;
-            if (!containerToCapture) continue;
-
-            const images = containerToCapture.querySelectorAll('img');
-            await Promise.all(Array.from(images).map(img => 
-                img.complete ? Promise.resolve() : new Promise<void>(resolve => {
-                    const timeout = setTimeout(resolve, 2000);
-                    img.onload = () => { clearTimeout(timeout); resolve(); };
-                    img.onerror = () => { clearTimeout(timeout); resolve(); };
-                })
-            ));
-
-            await document.fonts.ready;
-            await new Promise<void>(resolve => setTimeout(resolve, 50));
-
-            const canvas = await html2canvas(containerToCapture, {
-                width: 1024,
-                height: 1024,
-                useCORS: true,
-                logging: false,
-                backgroundColor: null,
-                scale: 1,
-            });
-
-            const imgData = canvas.toDataURL('image/png', 1.0);
-            if (i > 0) pdf.addPage([1024, 1024], 'p');
-            pdf.addImage(imgData, 'PNG', 0, 0, 1024, 1024);
-        }
-
-        if (currentPageIndex !== originalPageIndex) {
-            setCurrentPageIndex(originalPageIndex);
-        }
-
+        const pdf = await createVectorPdf(exportablePages);
         pdf.save(`manga-comic-${Date.now()}.pdf`);
+    } catch (err) {
+        console.error('🚫 [Error] Failed to export PDF:', err);
+        onExportError(`Could not export the PDF file. ${err instanceof Error ? err.message : 'Please try again.'}`);
+    } finally {
+        setExportingFormat(null);
+    }
+}, [exportablePages, setExportingFormat, onExportError]);
 
+const handleDownloadCbz = useCallback(async () => {
+    setExportingFormat('cbz');
+    onExportError(null);
+    try {
+        const archive = await createCbzArchive(exportablePages, { prompt, readingDirection });
+        downloadBlob(archive, `manga-comic-${Date.now()}.cbz`);
+    } catch (err) {
+        console.error('🚫 [Error] Failed to export CBZ:', err);
+        onExportError(`Could not export the CBZ file. ${err instanceof Error ? err.message : 'Please try again.'}`);
     } finally {
-        if (container) {
-            container.classList.remove('pdf-export-mode');
-        }
-        setIsDownloadingPdf(false);
+        setExportingFormat(null);
+    }
+}, [exportablePages, prompt, readingDirection, setExportingFormat, onExportError]);
+
+const handleDownloadEpub = useCallback(async () => {
+    setExportingFormat('epub');
+    onExportError(null);
+    try {
+        const archive = await createEpubArchive(exportablePages, { prompt, readingDirection });
+        downloadBlob(archive, `manga-comic-${Date.now()}.epub`);
+    } catch (err) {
+        console.error('🚫 [Error] Failed to export EPUB:', err);
+        onExportError(`Could not export the EPUB file. ${err instanceof Error ? err.message : 'Please try again.'}`);
+    } finally {
+        setExportingFormat(null);
     }
-}, [currentPageIndex, pages, imageContainerRef, setActiveAnnotationId, setIsDownloadingPdf, setEditingTextElementId, setSelectedTextElementId]);
+}, [exportablePages, prompt, readingDirection, setExportingFormat, onExportError]);
 
 useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
         if (e.key === 'Escape') {
             setShowHelpModal(false);
+            setShowVariants(false);
+            setPanelPicker(null);
         }
     };
     window.addEventListener('keydown', handleKeyDown);
@@ -271,6 +343,19 @@ useEffect(() => {
             <p className="text-zinc-600">Use the tools to add notes, or double-click text to edit. Then regenerate or download.</p>
         </div>
 
+        {showVariants && activePage.variants && (
+            <VariantGallery
+                pageNumber={currentPageIndex + 1}
+                variants={activePage.variants}
+                activeImageUrl={activePage.imageUrl}
+                onPick={variantId => {
+                    onSelectVariant(activePage.id, variantId);
+                    setShowVariants(false);
+                }}
+                onClose={() => setShowVariants(false)}
+            />
+        )}
+
          {/* Page Navigation */}
         <div className="w-full flex items-center justify-center gap-4">
             <button 
@@ -282,6 +367,7 @@ useEffect(() => {
             </button>
             <span className="font-medium text-zinc-700">
                 Page {currentPageIndex + 1} of {pages.length}
+                {activePage.error && <span className="ml-2 text-sm text-red-600">(failed)</span>}
             </span>
             <button 
                 onClick={() => handlePageChange(currentPageIndex + 1)}
@@ -290,8 +376,28 @@ useEffect(() => {
             >
                 Next
             </button>
+            {activePage.variants && activePage.variants.length > 1 && (
+                <button
+                    onClick={() => setShowVariants(true)}
+                    className="px-4 py-2 bg-white text-indigo-600 font-medium rounded-lg border border-indigo-200 hover:bg-indigo-50 transition-colors"
+                >
+                    Candidates ({activePage.variants.length})
+                </button>
+            )}
         </div>
 
+        <PageStrip
+            pages={pages}
+            activeIndex={currentPageIndex}
+            insertion={pageInsertion}
+            onSelect={handlePageChange}
+            onMove={onMovePage}
+            onDuplicate={handleDuplicatePage}
+            onDelete={handleDeletePage}
+            onInsert={onInsertPage}
+            onContinue={onContinueStory}
+        />
+
         <div className="w-full flex flex-col lg:flex-row-reverse items-start gap-8 lg:justify-center">
             <AnnotationToolbar
                 tool={tool}
@@ -303,7 +409,17 @@ useEffect(() => {
                 historyLength={history.length}
                 hasAnnotations={hasAnnotations}
                 handleRegenerateClick={handleRegenerateClick}
+                handleRegeneratePanelClick={handleRegeneratePanelClick}
+                canRegeneratePanel={!activePage.error}
+                handleReletterClick={handleReletterClick}
+                isReLettering={isReLettering}
+                canReletter={!activePage.error && !reletter}
                 handleDownload={handleDownload}
+                handleDownloadCbz={handleDownloadCbz}
+                handleDownloadEpub={handleDownloadEpub}
+                readingDirection={readingDirection}
+                setReadingDirection={setReadingDirection}
+                handleSaveProject={onSaveProject}
                 handleShowHelp={() => setShowHelpModal(true)}
             />
             <AnnotationCanvas
@@ -327,8 +443,43 @@ useEffect(() => {
                 editingTextElementId={editingTextElementId}
                 setEditingTextElementId={setEditingTextElementId}
                 commitActiveAnnotation={commitActiveAnnotation}
+                overlay={activePage.error && (
+                    <FailedPagePlaceholder
+                        page={activePage}
+                        retryMessage={retryingPages[activePage.id]}
+                        onRetry={() => onRetryPage(activePage.id)}
+                        onCancelRetry={() => onCancelRetry(activePage.id)}
+                    />
+                )}
             />
         </div>
+
+        {reletter && reletter.pageId === activePage.id && (
+            <ReletterReview
+                bubbles={activePage.textElements.filter(el => reletter.choices[el.id])}
+                choices={reletter.choices}
+                onChoose={(elementId, choice) => applyLetteringChoices({ ...reletter, choices: { ...reletter.choices, [elementId]: choice } })}
+                onChooseAll={choice => applyLetteringChoices({ ...reletter, choices: Object.fromEntries(Object.keys(reletter.choices).map(id => [id, choice])) })}
+                onKeep={() => setReletter(null)}
+                onDiscard={handleDiscardLettering}
+            />
+        )}
+
+        {panelPicker && (
+            <PanelRegenerateDialog
+                page={activePage}
+                annotatedImageUrl={panelPicker.annotatedImageB64}
+                drawnRegions={panelPicker.drawnRegions}
+                initialInstructions={panelPicker.annotationText}
+                onSubmit={(region, instructions) => {
+                    setPanelPicker(null);
+                    onRegeneratePanel(activePage.id, panelPicker.annotatedImageB64, region, instructions);
+                }}
+                onClose={() => setPanelPicker(null)}
+            />
+        )}
+
+        <VersionHistory key={activePage.id} page={activePage} onRestore={versionId => onRestoreVersion(activePage.id, versionId)} />
     </div>
   );
 };
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import type { PageSize } from '../types';
+
+interface CompareSliderProps {
+    beforeUrl: string;
+    afterUrl: string;
+    beforeLabel: string;
+    afterLabel: string;
+    pageSize: PageSize;
+    onClose: () => void;
+}
+
+// Drag the divider to wipe between two versions of the same page
+export const CompareSlider: React.FC<CompareSliderProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel, pageSize, onClose }) => {
+    const [position, setPosition] = useState(50);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl p-4 flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between text-sm font-medium text-zinc-700">
+                    <span>{beforeLabel}</span>
+                    <button onClick={onClose} className="px-3 py-1 text-zinc-500 rounded-full hover:bg-zinc-100 transition-colors">Close</button>
+                    <span>{afterLabel}</span>
+                </div>
+                <div
+                    className="relative w-full max-h-[70vh] mx-auto bg-zinc-100 select-none overflow-hidden rounded-lg"
+                    style={{ aspectRatio: `${pageSize.width} / ${pageSize.height}` }}
+                >
+                    <img src={afterUrl} alt={afterLabel} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+                    <img
+                        src={beforeUrl}
+                        alt={beforeLabel}
+                        className="absolute inset-0 w-full h-full object-contain"
+                        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+                        draggable={false}
+                    />
+                    <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_0_1px_rgba(0,0,0,0.3)] pointer-events-none" style={{ left: `${position}%` }} />
+                </div>
+                <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={position}
+                    onChange={e => setPosition(Number(e.target.value))}
+                    className="w-full accent-indigo-600"
+                    aria-label="Compare position"
+                />
+            </div>
+        </div>
+    );
+};
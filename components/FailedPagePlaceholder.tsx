@@ -0,0 +1,57 @@
+import React from 'react';
+import type { ComicPage } from '../types';
+
+interface FailedPagePlaceholderProps {
+    page: ComicPage;
+    retryMessage?: string | null; // Set while a retry is running
+    onRetry: () => void;
+    onCancelRetry: () => void;
+}
+
+export const FailedPagePlaceholder: React.FC<FailedPagePlaceholderProps> = ({ page, retryMessage, onRetry, onCancelRetry }) => {
+    const isRetrying = retryMessage != null;
+
+    return (
+        <div className="w-full h-full bg-zinc-50 rounded-lg flex flex-col items-center justify-center gap-6 p-16 text-center">
+            {isRetrying ? (
+                <>
+                    <div className="w-12 h-12 border-4 border-t-4 border-zinc-200 border-t-indigo-600 rounded-full animate-spin"></div>
+                    <p className="text-zinc-600 font-medium text-lg">{retryMessage}</p>
+                    <button
+                        onClick={onCancelRetry}
+                        className="px-4 py-2 bg-white text-zinc-700 font-medium rounded-full border border-zinc-300 hover:bg-zinc-50 transition-all duration-300 text-sm"
+                    >
+                        Cancel
+                    </button>
+                </>
+            ) : (
+                <>
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-12 h-12 text-red-500" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <circle cx="12" cy="12" r="10"/>
+                        <line x1="12" x2="12" y1="8" y2="12"/>
+                        <line x1="12" x2="12.01" y1="16" y2="16"/>
+                    </svg>
+                    <div>
+                        <h3 className="font-heading text-2xl font-bold text-zinc-900">Page {page.storyPrompt.page_number} could not be drawn</h3>
+                        <p className="mt-2 text-sm text-red-600 max-w-xl">{page.error}</p>
+                    </div>
+                    <button
+                        onClick={onRetry}
+                        className="px-6 py-2.5 bg-indigo-600 text-white font-medium rounded-full hover:bg-indigo-700 transition-all duration-300 shadow-sm hover:shadow-md"
+                    >
+                        Retry This Page
+                    </button>
+                </>
+            )}
+
+            <div className="w-full max-w-2xl text-left border-t border-zinc-200 pt-6 space-y-3">
+                <p className="text-xs font-semibold uppercase tracking-wide text-zinc-500">Script for this page</p>
+                {page.storyPrompt.panels.map(panel => (
+                    <div key={panel.panel_number} className="text-sm text-zinc-600">
+                        <span className="font-semibold text-zinc-800">Panel {panel.panel_number}:</span> {panel.visual_description}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -4,9 +4,10 @@ import React from 'react';
 interface HeaderProps {
     onStartOver: () => void;
     showStartOver: boolean;
+    onDownloadFixture?: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onStartOver, showStartOver }) => {
+export const Header: React.FC<HeaderProps> = ({ onStartOver, showStartOver, onDownloadFixture }) => {
   return (
     <header className="w-full p-4 flex justify-center sticky top-0 z-50">
       <nav className="w-full max-w-7xl mx-auto bg-white/70 border border-zinc-200 rounded-full py-3 px-6 shadow-sm backdrop-blur-md">
@@ -19,14 +20,25 @@ export const Header: React.FC<HeaderProps> = ({ onStartOver, showStartOver }) =>
             </svg>
             <span className="ml-2 text-lg font-bold font-sans text-zinc-800">Manga Weaver AI</span>
           </div>
-          {showStartOver && (
-            <button
-              onClick={onStartOver}
-              className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-full hover:bg-indigo-700 transition-all duration-300 shadow-sm hover:shadow-md text-sm text-center"
-            >
-              Start Over
-            </button>
-          )}
+          <div className="flex items-center gap-2">
+            {onDownloadFixture && (
+              <button
+                onClick={onDownloadFixture}
+                title="Download every recorded AI request and response as a replayable fixture"
+                className="px-4 py-2 bg-white text-zinc-700 font-medium rounded-full border border-zinc-300 hover:bg-zinc-50 transition-all duration-300 text-sm text-center"
+              >
+                Download AI Fixture
+              </button>
+            )}
+            {showStartOver && (
+              <button
+                onClick={onStartOver}
+                className="px-4 py-2 bg-indigo-600 text-white font-medium rounded-full hover:bg-indigo-700 transition-all duration-300 shadow-sm hover:shadow-md text-sm text-center"
+              >
+                Start Over
+              </button>
+            )}
+          </div>
         </div>
       </nav>
     </header>
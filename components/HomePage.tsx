@@ -1,17 +1,27 @@
 import React, { useState, useRef, DragEvent } from 'react';
+import type { ArtStyleId, CharacterProfile, GenerationRequest, PageSize } from '../types';
+import { CastEditor, createCharacter } from './CastEditor';
+import { filesToReferenceImages } from '../services/projectService';
+import { ART_STYLE_PRESETS, DEFAULT_ART_STYLE } from '../utils/artStyles';
+import { DEFAULT_PAGE_SIZE, PAGE_SIZE_PRESETS } from '../utils/pageSizes';
 
 interface HomePageProps {
-  onGenerate: (prompt: string, files: File[], numPages: number, isQualityCheckEnabled: boolean) => void;
+  onGenerate: (prompt: string, characters: CharacterProfile[], artStyle: ArtStyleId, pageSize: PageSize, numPages: number, isQualityCheckEnabled: boolean) => void;
+  onOpenProject: (file: File) => void;
+  initialRequest?: GenerationRequest | null;
+  keptPageCount?: number;
+  onViewKeptPages?: () => void;
 }
 
-export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
-  const [prompt, setPrompt] = useState('');
-  const [files, setFiles] = useState<File[]>([]);
-  const [previews, setPreviews] = useState<string[]>([]);
-  const [numPages, setNumPages] = useState(1);
+export const HomePage: React.FC<HomePageProps> = ({ onGenerate, onOpenProject, initialRequest, keptPageCount = 0, onViewKeptPages }) => {
+  const [prompt, setPrompt] = useState(initialRequest?.prompt ?? '');
+  const [characters, setCharacters] = useState<CharacterProfile[]>(initialRequest?.characters ?? []);
+  const [artStyle, setArtStyle] = useState<ArtStyleId>(initialRequest?.artStyle ?? DEFAULT_ART_STYLE);
+  const [pageSize, setPageSize] = useState<PageSize>(initialRequest?.pageSize ?? DEFAULT_PAGE_SIZE);
+  const [numPages, setNumPages] = useState(initialRequest?.numPages ?? 1);
   const [isDragging, setIsDragging] = useState(false);
-  const [isQualityCheckEnabled, setIsQualityCheckEnabled] = useState(true);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isQualityCheckEnabled, setIsQualityCheckEnabled] = useState(initialRequest?.isQualityCheckEnabled ?? true);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -23,33 +33,16 @@ export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
       }
   };
 
-  const handleFiles = (selectedFiles: FileList | null) => {
+  const handleFiles = async (selectedFiles: FileList | null) => {
     if (selectedFiles) {
-      const newFiles = Array.from(selectedFiles).filter(file => file.type.startsWith('image/'));
-      setFiles(prevFiles => [...prevFiles, ...newFiles]);
-
-      const newPreviews = newFiles.map(file => URL.createObjectURL(file));
-      setPreviews(prevPreviews => [...prevPreviews, ...newPreviews]);
+      const newFiles = Array.from(selectedFiles).filter((file: File) => file.type.startsWith('image/'));
+      if (newFiles.length === 0) return;
+      // Dropped images start a new cast member that the user can then name
+      const referenceImages = await filesToReferenceImages(newFiles);
+      setCharacters(prev => [...prev, createCharacter({ referenceImages })]);
     }
   };
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    handleFiles(event.target.files);
-    if(event.target) event.target.value = '';
-  };
-
-  const handleRemoveFile = (index: number) => {
-    const updatedFiles = [...files];
-    const updatedPreviews = [...previews];
-
-    updatedFiles.splice(index, 1);
-    const removedPreview = updatedPreviews.splice(index, 1);
-
-    setFiles(updatedFiles);
-    setPreviews(updatedPreviews);
-    URL.revokeObjectURL(removedPreview[0]);
-  };
-
   const handleDrop = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
@@ -71,18 +64,18 @@ export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
     setIsDragging(false);
   };
 
+  const handleProjectFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onOpenProject(file);
+    if(event.target) event.target.value = '';
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim()) {
-      onGenerate(prompt, files, numPages, isQualityCheckEnabled);
+      onGenerate(prompt, characters, artStyle, pageSize, numPages, isQualityCheckEnabled);
     }
   };
-  
-  React.useEffect(() => {
-    return () => {
-      previews.forEach(preview => URL.revokeObjectURL(preview));
-    };
-  }, [previews]);
 
   return (
     <div className="w-full max-w-3xl text-center flex flex-col items-center px-4">
@@ -93,6 +86,21 @@ export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
             Bring your story to life. Describe your comic, add characters, and let AI do the rest.
         </p>
 
+        {keptPageCount > 0 && onViewKeptPages && (
+            <div className="w-full mt-8 flex items-center justify-between gap-4 bg-indigo-50 border border-indigo-100 rounded-2xl px-5 py-3 text-left">
+                <p className="text-sm text-zinc-700">
+                    Generation was cancelled. {keptPageCount} finished page{keptPageCount === 1 ? ' was' : 's were'} kept.
+                </p>
+                <button
+                    type="button"
+                    onClick={onViewKeptPages}
+                    className="px-4 py-1.5 bg-indigo-600 text-white text-sm font-medium rounded-full hover:bg-indigo-700 transition-colors flex-shrink-0"
+                >
+                    Open {keptPageCount === 1 ? 'It' : 'Them'}
+                </button>
+            </div>
+        )}
+
         <form onSubmit={handleSubmit} className="w-full mt-12 flex flex-col items-center">
             <div 
                 onDrop={handleDrop}
@@ -113,9 +121,9 @@ export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
                         <div className="flex items-center gap-2">
                              <button
                                 type="button"
-                                onClick={() => fileInputRef.current?.click()}
+                                onClick={() => setCharacters(prev => [...prev, createCharacter()])}
                                 className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-zinc-600 hover:bg-zinc-100 rounded-lg transition-colors"
-                                aria-label="Add character reference images"
+                                aria-label="Add a character"
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                                     <circle cx="12" cy="12" r="10"/>
@@ -124,7 +132,17 @@ export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
                                 </svg>
                                 <span className="hidden sm:inline">Add Characters</span>
                             </button>
-                            <input id="file-upload" name="file-upload" type="file" className="hidden" ref={fileInputRef} multiple accept="image/*" onChange={handleFileChange} />
+                            <div className="h-6 w-px bg-zinc-200 mx-1"></div>
+                            <select
+                                value={PAGE_SIZE_PRESETS.find(preset => preset.size.width === pageSize.width && preset.size.height === pageSize.height)?.id}
+                                onChange={(e) => setPageSize(PAGE_SIZE_PRESETS.find(preset => preset.id === e.target.value)?.size ?? DEFAULT_PAGE_SIZE)}
+                                className="text-sm font-medium text-zinc-600 bg-transparent hover:bg-zinc-100 px-2 py-1.5 rounded-lg focus:outline-none cursor-pointer"
+                                aria-label="Page size"
+                            >
+                                {PAGE_SIZE_PRESETS.map(preset => (
+                                    <option key={preset.id} value={preset.id}>{preset.label} ({preset.summary})</option>
+                                ))}
+                            </select>
                             <div className="h-6 w-px bg-zinc-200 mx-1"></div>
                              <label htmlFor="num-pages" className="text-sm font-medium text-zinc-600 flex items-center gap-2 cursor-pointer hover:bg-zinc-100 px-3 py-1.5 rounded-lg">
                                 <span className="hidden sm:inline">Pages:</span>
@@ -179,28 +197,38 @@ export const HomePage: React.FC<HomePageProps> = ({ onGenerate }) => {
                 </div>
             </div>
 
+            <div className="w-full mt-4 grid grid-cols-2 sm:grid-cols-4 gap-2" role="radiogroup" aria-label="Art style">
+                {ART_STYLE_PRESETS.map(style => (
+                    <button
+                        key={style.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={artStyle === style.id}
+                        onClick={() => setArtStyle(style.id)}
+                        className={`px-3 py-2 rounded-xl border text-left transition-colors ${artStyle === style.id ? 'border-indigo-400 bg-indigo-50 ring-2 ring-indigo-500/20' : 'border-zinc-200 bg-white hover:bg-zinc-50'}`}
+                    >
+                        <span className={`block text-sm font-semibold ${artStyle === style.id ? 'text-indigo-700' : 'text-zinc-800'}`}>{style.label}</span>
+                        <span className="block text-xs text-zinc-500">{style.summary}</span>
+                    </button>
+                ))}
+            </div>
+
             <p className="mt-3 text-xs text-zinc-500">
                 Note: More pages will take longer to generate.
             </p>
 
-            {previews.length > 0 && (
+            <button
+                type="button"
+                onClick={() => projectInputRef.current?.click()}
+                className="mt-4 text-sm font-medium text-indigo-600 hover:text-indigo-700 hover:underline"
+            >
+                Open a saved project
+            </button>
+            <input type="file" className="hidden" ref={projectInputRef} accept=".json,application/json" onChange={handleProjectFileChange} />
+
+            {characters.length > 0 && (
                 <div className="mt-8 w-full">
-                    <p className="text-sm font-medium text-zinc-600 mb-3 text-left">Character References:</p>
-                    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4">
-                        {previews.map((src, index) => (
-                            <div key={index} className="relative group aspect-square">
-                                <img src={src} alt={`Preview ${index}`} className="w-full h-full object-cover rounded-lg border border-zinc-200" />
-                                <button
-                                    type="button"
-                                    onClick={() => handleRemoveFile(index)}
-                                    className="absolute -top-2 -right-2 w-6 h-6 bg-zinc-800 text-white rounded-full flex items-center justify-center text-sm font-bold opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-500"
-                                    aria-label="Remove image"
-                                >
-                                    &times;
-                                </button>
-                            </div>
-                        ))}
-                    </div>
+                    <CastEditor characters={characters} onChange={setCharacters} />
                 </div>
             )}
         </form>
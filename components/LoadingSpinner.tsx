@@ -3,9 +3,10 @@ import type { ProgressUpdate } from '../types';
 
 interface LoadingSpinnerProps {
     progress?: ProgressUpdate | null;
+    onCancel?: () => void;
 }
 
-export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress }) => {
+export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress, onCancel }) => {
     const message = progress?.message || 'The AI is weaving your story...';
     const subMessage = progress
         ? 'This can take a few minutes. Please be patient!'
@@ -48,6 +49,27 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress }) => {
                                                 style={{ width: `${page.progress}%` }}
                                             ></div>
                                         </div>
+                                        {page.variants && (
+                                            <div className="mt-2 ml-3 space-y-2 border-l border-zinc-200 pl-3">
+                                                {page.variants.map((variant, index) => (
+                                                    <div key={index}>
+                                                        <div className="flex justify-between items-center text-[11px] mb-1 text-zinc-500">
+                                                            <span>Candidate {index + 1}</span>
+                                                            <span className="truncate max-w-[100px]">{variant.message}</span>
+                                                        </div>
+                                                        <div className="w-full bg-zinc-200 rounded-full h-1 overflow-hidden">
+                                                            <div
+                                                                className="bg-sky-400 h-1 rounded-full transition-all duration-500 ease-out"
+                                                                style={{ width: `${variant.progress}%` }}
+                                                            ></div>
+                                                        </div>
+                                                        {variant.reasoning && (
+                                                            <p className="mt-1 text-[11px] text-zinc-400 line-clamp-2" title={variant.reasoning}>{variant.reasoning}</p>
+                                                        )}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
                                     </div>
                                 ))}
                             </div>
@@ -57,6 +79,15 @@ export const LoadingSpinner: React.FC<LoadingSpinnerProps> = ({ progress }) => {
             )}
             
             <p className="text-sm text-zinc-500 text-center max-w-sm">{subMessage}</p>
+
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-2 bg-white text-zinc-700 font-medium rounded-full border border-zinc-300 hover:bg-zinc-50 transition-all duration-300 text-sm"
+                >
+                    Cancel
+                </button>
+            )}
         </div>
     );
 };
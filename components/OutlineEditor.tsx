@@ -0,0 +1,282 @@
+import React, { useState } from 'react';
+import type { CharacterProfile, StoryOutline, StoryPagePrompt, ComicPanelPrompt, TextElementData, PanelLayoutId } from '../types';
+import { MAX_PANELS_PER_LAYOUT, PANEL_LAYOUTS, getPanelLayout, resolvePanelLayout } from '../utils/panelLayouts';
+
+interface OutlineEditorProps {
+    outline: StoryOutline;
+    characters: CharacterProfile[];
+    onApprove: (outline: StoryOutline) => void;
+    onBack: () => void;
+}
+
+// Matches the limits the story outline prompt gives the model
+const MAX_TEXT_ELEMENTS_PER_PANEL = 2;
+const MAX_PAGE_VARIANTS = 4;
+
+const TEXT_TYPES: TextElementData['type'][] = ['dialogue', 'thoughts', 'narrative'];
+
+// Page and panel numbers always follow their position in the list, and the layout always fits the panel count
+const renumber = (pages: StoryPagePrompt[]): StoryPagePrompt[] =>
+    pages.map((page, pageIndex) => ({
+        ...page,
+        page_number: pageIndex + 1,
+        layout: resolvePanelLayout(page.layout, page.panels.length).id,
+        panels: page.panels.map((panel, panelIndex) => ({ ...panel, panel_number: panelIndex + 1 })),
+    }));
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+    if (to < 0 || to >= items.length) return items;
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+const createEmptyPanel = (): ComicPanelPrompt => ({ panel_number: 0, visual_description: '', text_elements: [] });
+
+const inputClassName = 'w-full bg-white border border-zinc-200 rounded-lg px-3 py-2 text-sm text-zinc-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-400';
+const smallButtonClassName = 'px-2 py-1 text-xs font-medium text-zinc-600 rounded-md hover:bg-zinc-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+export const OutlineEditor: React.FC<OutlineEditorProps> = ({ outline, characters, onApprove, onBack }) => {
+    const [pages, setPages] = useState<StoryPagePrompt[]>(() => renumber(outline.pages));
+    const [validationError, setValidationError] = useState<string | null>(null);
+
+    const updatePages = (updater: (pages: StoryPagePrompt[]) => StoryPagePrompt[]) => {
+        setPages(prev => renumber(updater(prev)));
+        setValidationError(null);
+    };
+
+    const updatePanels = (pageIndex: number, updater: (panels: ComicPanelPrompt[]) => ComicPanelPrompt[]) => {
+        updatePages(prev => prev.map((page, i) => (i === pageIndex ? { ...page, panels: updater(page.panels) } : page)));
+    };
+
+    const updatePanel = (pageIndex: number, panelIndex: number, changes: Partial<ComicPanelPrompt>) => {
+        updatePanels(pageIndex, panels => panels.map((panel, i) => (i === panelIndex ? { ...panel, ...changes } : panel)));
+    };
+
+    const updateTextElement = (pageIndex: number, panelIndex: number, elementIndex: number, changes: Partial<TextElementData>) => {
+        const panel = pages[pageIndex].panels[panelIndex];
+        updatePanel(pageIndex, panelIndex, {
+            text_elements: panel.text_elements.map((el, i) => {
+                if (i !== elementIndex) return el;
+                const updated = { ...el, ...changes };
+                // Narrative boxes aren't spoken by anyone
+                if (updated.type === 'narrative') delete updated.character_identifier;
+                return updated;
+            }),
+        });
+    };
+
+    // Picking a layout with more panels adds empty ones to fill it
+    const changeLayout = (pageIndex: number, layoutId: PanelLayoutId) => {
+        const layout = getPanelLayout(layoutId);
+        if (!layout) return;
+        updatePages(prev => prev.map((page, i) => {
+            if (i !== pageIndex) return page;
+            const missing = Math.max(0, layout.panelCount - page.panels.length);
+            return { ...page, layout: layout.id, panels: [...page.panels, ...Array.from({ length: missing }, createEmptyPanel)] };
+        }));
+    };
+
+    const togglePanelCharacter = (pageIndex: number, panelIndex: number, name: string) => {
+        const current = pages[pageIndex].panels[panelIndex].characters ?? [];
+        updatePanel(pageIndex, panelIndex, {
+            characters: current.includes(name) ? current.filter(n => n !== name) : [...current, name],
+        });
+    };
+
+    const castNames = characters.map((character, i) => character.name.trim() || `Character ${i + 1}`);
+
+    const handleApprove = () => {
+        const emptyPanel = pages.flatMap(page => page.panels.map(panel => ({ page, panel })))
+            .find(({ panel }) => !panel.visual_description.trim());
+        if (pages.length === 0 || pages.some(page => page.panels.length === 0)) {
+            setValidationError('Every page needs at least one panel.');
+            return;
+        }
+        if (emptyPanel) {
+            setValidationError(`Page ${emptyPanel.page.page_number}, panel ${emptyPanel.panel.panel_number} needs a visual description.`);
+            return;
+        }
+
+        onApprove({
+            pages: pages.map(page => ({
+                ...page,
+                panels: page.panels.map(panel => ({
+                    ...panel,
+                    visual_description: panel.visual_description.trim(),
+                    text_elements: panel.text_elements.filter(el => el.text.trim()),
+                })),
+            })),
+        });
+    };
+
+    return (
+        <div className="w-full max-w-4xl flex flex-col gap-6">
+            <div className="text-center">
+                <h2 className="font-heading text-3xl font-bold text-zinc-900 mb-2">Review Your Script</h2>
+                <p className="text-zinc-600">Adjust the story before any artwork is drawn. Nothing is generated until you approve.</p>
+            </div>
+
+            {pages.map((page, pageIndex) => (
+                <section key={pageIndex} className="bg-white border border-zinc-200 rounded-2xl shadow-sm p-5 flex flex-col gap-4">
+                    <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                            <h3 className="font-heading text-xl font-bold text-zinc-900">Page {page.page_number}</h3>
+                            <select
+                                value={page.layout}
+                                onChange={e => changeLayout(pageIndex, e.target.value as PanelLayoutId)}
+                                className="bg-white border border-zinc-200 rounded-lg px-2 py-1 text-xs text-zinc-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                                aria-label="Page layout"
+                            >
+                                {PANEL_LAYOUTS.map(layout => (
+                                    // Remove panels first to switch to a layout with fewer of them
+                                    <option key={layout.id} value={layout.id} disabled={layout.panelCount < page.panels.length}>
+                                        {layout.label} ({layout.panelCount} panel{layout.panelCount === 1 ? '' : 's'})
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                value={page.variants ?? 1}
+                                onChange={e => updatePages(prev => prev.map((p, i) => (i === pageIndex ? { ...p, variants: Number(e.target.value) } : p)))}
+                                className="bg-white border border-zinc-200 rounded-lg px-2 py-1 text-xs text-zinc-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                                aria-label="Candidate drawings"
+                                title="Draw several candidates for this page and pick one before it is lettered"
+                            >
+                                {Array.from({ length: MAX_PAGE_VARIANTS }, (_, i) => i + 1).map(count => (
+                                    <option key={count} value={count}>{count === 1 ? '1 drawing' : `${count} candidates`}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            <button className={smallButtonClassName} disabled={pageIndex === 0} onClick={() => updatePages(prev => moveItem(prev, pageIndex, pageIndex - 1))}>Move Up</button>
+                            <button className={smallButtonClassName} disabled={pageIndex === pages.length - 1} onClick={() => updatePages(prev => moveItem(prev, pageIndex, pageIndex + 1))}>Move Down</button>
+                            <button className={`${smallButtonClassName} text-red-600 hover:bg-red-50`} disabled={pages.length === 1} onClick={() => updatePages(prev => prev.filter((_, i) => i !== pageIndex))}>Delete Page</button>
+                        </div>
+                    </div>
+
+                    {page.panels.map((panel, panelIndex) => (
+                        <div key={panelIndex} className="border border-zinc-200 rounded-xl p-4 bg-zinc-50/50 flex flex-col gap-3">
+                            <div className="flex items-center justify-between">
+                                <span className="text-sm font-semibold text-zinc-800">Panel {panel.panel_number}</span>
+                                <div className="flex items-center gap-1">
+                                    <button className={smallButtonClassName} disabled={panelIndex === 0} onClick={() => updatePanels(pageIndex, panels => moveItem(panels, panelIndex, panelIndex - 1))}>↑</button>
+                                    <button className={smallButtonClassName} disabled={panelIndex === page.panels.length - 1} onClick={() => updatePanels(pageIndex, panels => moveItem(panels, panelIndex, panelIndex + 1))}>↓</button>
+                                    <button className={`${smallButtonClassName} text-red-600 hover:bg-red-50`} disabled={page.panels.length === 1} onClick={() => updatePanels(pageIndex, panels => panels.filter((_, i) => i !== panelIndex))}>Remove</button>
+                                </div>
+                            </div>
+
+                            <label className="flex flex-col gap-1">
+                                <span className="text-xs font-medium text-zinc-500">Visual description</span>
+                                <textarea
+                                    value={panel.visual_description}
+                                    onChange={e => updatePanel(pageIndex, panelIndex, { visual_description: e.target.value })}
+                                    rows={3}
+                                    className={inputClassName}
+                                />
+                            </label>
+
+                            {castNames.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="text-xs font-medium text-zinc-500">In this panel</span>
+                                    {castNames.map(name => {
+                                        const isSelected = panel.characters?.includes(name) ?? false;
+                                        return (
+                                            <button
+                                                key={name}
+                                                onClick={() => togglePanelCharacter(pageIndex, panelIndex, name)}
+                                                className={`px-2.5 py-1 text-xs font-medium rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-zinc-600 border-zinc-200 hover:bg-zinc-100'}`}
+                                            >
+                                                {name}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+
+                            <div className="flex flex-col gap-2">
+                                <span className="text-xs font-medium text-zinc-500">Text</span>
+                                {panel.text_elements.map((el, elementIndex) => (
+                                    <div key={elementIndex} className="flex flex-col sm:flex-row gap-2">
+                                        <select
+                                            value={el.type}
+                                            onChange={e => updateTextElement(pageIndex, panelIndex, elementIndex, { type: e.target.value as TextElementData['type'] })}
+                                            className={`${inputClassName} sm:w-32`}
+                                        >
+                                            {TEXT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                        </select>
+                                        <input
+                                            value={el.text}
+                                            onChange={e => updateTextElement(pageIndex, panelIndex, elementIndex, { text: e.target.value })}
+                                            placeholder="Text"
+                                            className={inputClassName}
+                                        />
+                                        {el.type !== 'narrative' && (
+                                            <input
+                                                value={el.character_identifier ?? ''}
+                                                onChange={e => updateTextElement(pageIndex, panelIndex, elementIndex, { character_identifier: e.target.value })}
+                                                placeholder={castNames.length > 0 ? `Speaker, e.g. ${castNames[0]}` : 'Speaker, e.g. the girl in the red scarf'}
+                                                list="outline-cast-names"
+                                                className={`${inputClassName} sm:w-64`}
+                                            />
+                                        )}
+                                        <button
+                                            className={`${smallButtonClassName} text-red-600 hover:bg-red-50`}
+                                            onClick={() => updatePanel(pageIndex, panelIndex, { text_elements: panel.text_elements.filter((_, i) => i !== elementIndex) })}
+                                            aria-label="Remove text"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    className={`${smallButtonClassName} self-start text-indigo-600`}
+                                    disabled={panel.text_elements.length >= MAX_TEXT_ELEMENTS_PER_PANEL}
+                                    onClick={() => updatePanel(pageIndex, panelIndex, { text_elements: [...panel.text_elements, { type: 'dialogue', text: '', character_identifier: '' }] })}
+                                >
+                                    + Add text
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+
+                    <button
+                        className={`${smallButtonClassName} self-start text-indigo-600`}
+                        disabled={page.panels.length >= MAX_PANELS_PER_LAYOUT}
+                        onClick={() => updatePanels(pageIndex, panels => [...panels, createEmptyPanel()])}
+                    >
+                        + Add panel
+                    </button>
+                </section>
+            ))}
+
+            <button
+                className="self-center px-4 py-2 text-sm font-medium text-indigo-600 border border-dashed border-indigo-300 rounded-full hover:bg-indigo-50 transition-colors"
+                onClick={() => updatePages(prev => [...prev, { page_number: 0, panels: [createEmptyPanel()] }])}
+            >
+                + Add page
+            </button>
+
+            <datalist id="outline-cast-names">
+                {castNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+
+            {validationError && <div className="text-red-600 bg-red-100 p-3 rounded-lg text-sm text-center">{validationError}</div>}
+
+            <div className="flex items-center justify-center gap-3 pb-8">
+                <button
+                    onClick={onBack}
+                    className="px-6 py-2.5 bg-white text-zinc-700 font-medium rounded-full border border-zinc-300 hover:bg-zinc-50 transition-all duration-300"
+                >
+                    Back
+                </button>
+                <button
+                    onClick={handleApprove}
+                    className="px-6 py-2.5 bg-indigo-600 text-white font-medium rounded-full hover:bg-indigo-700 transition-all duration-300 shadow-sm hover:shadow-md"
+                >
+                    Approve & Draw {pages.length} Page{pages.length === 1 ? '' : 's'}
+                </button>
+            </div>
+        </div>
+    );
+};
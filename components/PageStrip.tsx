@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import type { ComicPage, PageInsertion } from '../types';
+
+interface PageStripProps {
+    pages: ComicPage[];
+    activeIndex: number;
+    insertion: PageInsertion | null; // A page being written and drawn, shown where it will land
+    onSelect: (index: number) => void;
+    onMove: (from: number, to: number) => void;
+    onDuplicate: (index: number) => void;
+    onDelete: (index: number) => void;
+    onInsert: (afterPageId: string | null, prompt: string) => void;
+    onContinue: (direction: string, numPages: number) => void;
+}
+
+// Same range as the page count on the home page
+const MAX_CONTINUATION_PAGES = 10;
+
+const tileButtonClassName = 'px-1.5 py-0.5 text-[11px] font-medium text-zinc-600 rounded hover:bg-zinc-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
+export const PageStrip: React.FC<PageStripProps> = ({ pages, activeIndex, insertion, onSelect, onMove, onDuplicate, onDelete, onInsert, onContinue }) => {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const [openForm, setOpenForm] = useState<'insert' | 'continue' | null>(null);
+    const [insertPrompt, setInsertPrompt] = useState('');
+    const [direction, setDirection] = useState('');
+    const [continuationPages, setContinuationPages] = useState(1);
+    // '' inserts before the first page; otherwise the id of the page to insert after
+    const [insertAfterId, setInsertAfterId] = useState('');
+
+    const endDrag = () => {
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    const toggleForm = (form: 'insert' | 'continue') => {
+        if (form === 'insert') setInsertAfterId(pages[activeIndex]?.id ?? '');
+        setOpenForm(prev => (prev === form ? null : form));
+    };
+
+    const submitInsert = () => {
+        if (!insertPrompt.trim()) return;
+        onInsert(insertAfterId || null, insertPrompt.trim());
+        setInsertPrompt('');
+        setOpenForm(null);
+    };
+
+    const submitContinue = () => {
+        onContinue(direction.trim(), continuationPages);
+        setDirection('');
+        setOpenForm(null);
+    };
+
+    const pendingTile = insertion && (
+        <li className="flex-shrink-0 w-24 flex flex-col items-center justify-center gap-2 border-2 border-dashed border-indigo-300 rounded-lg p-2 text-center">
+            <div className="w-6 h-6 border-2 border-zinc-200 border-t-indigo-600 rounded-full animate-spin"></div>
+            <p className="text-[11px] text-zinc-500 line-clamp-3">{insertion.message}</p>
+        </li>
+    );
+
+    return (
+        <div className="w-full bg-white border border-zinc-200 rounded-2xl p-3 flex flex-col gap-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-zinc-600">Pages <span className="font-normal text-zinc-400">· drag to reorder</span></p>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => toggleForm('insert')}
+                        disabled={!!insertion}
+                        className={`px-3 py-1 text-xs font-medium text-indigo-600 rounded-full border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${openForm === 'insert' ? 'bg-indigo-50' : ''}`}
+                    >
+                        {insertion ? 'Adding page...' : '+ Insert page'}
+                    </button>
+                    <button
+                        onClick={() => toggleForm('continue')}
+                        disabled={!!insertion}
+                        className={`px-3 py-1 text-xs font-medium text-indigo-600 rounded-full border border-indigo-200 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${openForm === 'continue' ? 'bg-indigo-50' : ''}`}
+                    >
+                        Continue story
+                    </button>
+                </div>
+            </div>
+
+            {openForm === 'continue' && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <textarea
+                        value={direction}
+                        onChange={e => setDirection(e.target.value)}
+                        rows={2}
+                        placeholder="Optional: where should the story go next? Leave empty to let the story carry on by itself."
+                        className="flex-1 bg-white border border-zinc-200 rounded-lg px-3 py-2 text-sm text-zinc-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-400"
+                    />
+                    <div className="flex sm:flex-col gap-2">
+                        <label className="flex items-center justify-between gap-2 text-xs text-zinc-600">
+                            New pages
+                            <input
+                                type="number"
+                                value={continuationPages}
+                                onChange={e => setContinuationPages(Math.max(1, Math.min(MAX_CONTINUATION_PAGES, parseInt(e.target.value, 10) || 1)))}
+                                min="1"
+                                max={MAX_CONTINUATION_PAGES}
+                                className="w-14 bg-white border border-zinc-200 rounded-lg px-2 py-1 text-xs text-center text-zinc-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                            />
+                        </label>
+                        <button
+                            onClick={submitContinue}
+                            className="px-4 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-full hover:bg-indigo-700 transition-colors"
+                        >
+                            Write next pages
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {openForm === 'insert' && (
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <textarea
+                        value={insertPrompt}
+                        onChange={e => setInsertPrompt(e.target.value)}
+                        rows={2}
+                        placeholder="What happens on the new page? e.g. The heroes stop at a roadside noodle stand."
+                        className="flex-1 bg-white border border-zinc-200 rounded-lg px-3 py-2 text-sm text-zinc-800 focus:outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-400"
+                    />
+                    <div className="flex sm:flex-col gap-2">
+                        <select
+                            value={insertAfterId}
+                            onChange={e => setInsertAfterId(e.target.value)}
+                            className="bg-white border border-zinc-200 rounded-lg px-2 py-1 text-xs text-zinc-700 focus:outline-none focus:ring-2 focus:ring-indigo-500/20"
+                            aria-label="Where to insert the page"
+                        >
+                            <option value="">Before page 1</option>
+                            {pages.map((page, index) => (
+                                <option key={page.id} value={page.id}>After page {index + 1}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={submitInsert}
+                            disabled={!insertPrompt.trim()}
+                            className="px-4 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-full hover:bg-indigo-700 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+                        >
+                            Generate page
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <ol className="flex gap-2 overflow-x-auto pb-1">
+                {insertion?.afterPageId === null && pendingTile}
+                {pages.map((page, index) => {
+                    const isActive = index === activeIndex;
+                    const isDropTarget = dropIndex === index && dragIndex !== null && dragIndex !== index;
+                    return (
+                        <React.Fragment key={page.id}>
+                            <li
+                                draggable
+                                onDragStart={e => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    setDragIndex(index);
+                                }}
+                                onDragOver={e => {
+                                    if (dragIndex === null) return;
+                                    e.preventDefault();
+                                    setDropIndex(index);
+                                }}
+                                onDrop={e => {
+                                    e.preventDefault();
+                                    if (dragIndex !== null) onMove(dragIndex, index);
+                                    endDrag();
+                                }}
+                                onDragEnd={endDrag}
+                                className={`flex-shrink-0 w-24 flex flex-col gap-1 border rounded-lg p-1 cursor-grab bg-white transition-colors ${isActive ? 'border-indigo-500 ring-2 ring-indigo-500/20' : 'border-zinc-200'} ${isDropTarget ? 'bg-indigo-50 border-indigo-300' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+                            >
+                                <button onClick={() => onSelect(index)} className="block w-full" title={`Go to page ${index + 1}`}>
+                                    {page.error ? (
+                                        <div className="w-full aspect-[3/4] flex items-center justify-center bg-red-50 text-[11px] text-red-600 rounded">Failed</div>
+                                    ) : (
+                                        <img
+                                            src={page.imageUrl}
+                                            alt={`Page ${index + 1}`}
+                                            className="w-full bg-zinc-100 object-contain rounded"
+                                            style={{ aspectRatio: `${page.size.width} / ${page.size.height}` }}
+                                            draggable={false}
+                                        />
+                                    )}
+                                </button>
+                                <div className="flex items-center justify-between">
+                                    <span className="text-xs font-medium text-zinc-700 pl-1">{index + 1}</span>
+                                    <div className="flex">
+                                        <button onClick={() => onDuplicate(index)} className={tileButtonClassName} title="Duplicate page">Copy</button>
+                                        <button onClick={() => onDelete(index)} disabled={pages.length === 1} className={tileButtonClassName} title="Delete page">Delete</button>
+                                    </div>
+                                </div>
+                            </li>
+                            {insertion?.afterPageId === page.id && pendingTile}
+                        </React.Fragment>
+                    );
+                })}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import type { ComicPage } from '../types';
+import type { PanelRect } from '../utils/panelLayouts';
+import { detectPanels } from '../utils/panelDetection';
+
+interface PanelRegenerateDialogProps {
+    page: ComicPage;
+    annotatedImageUrl: string; // The page with the current annotations drawn on it
+    drawnRegions: PanelRect[]; // Rectangles drawn with the rectangle tool, in page pixels
+    initialInstructions: string;
+    onSubmit: (region: PanelRect, instructions: string) => void;
+    onClose: () => void;
+}
+
+interface SelectableRegion {
+    label: string;
+    rect: PanelRect;
+}
+
+const toPercentBox = (rect: PanelRect, page: ComicPage) => ({
+    left: `${(rect.x / page.size.width) * 100}%`,
+    top: `${(rect.y / page.size.height) * 100}%`,
+    width: `${(rect.width / page.size.width) * 100}%`,
+    height: `${(rect.height / page.size.height) * 100}%`,
+});
+
+export const PanelRegenerateDialog: React.FC<PanelRegenerateDialogProps> = ({ page, annotatedImageUrl, drawnRegions, initialInstructions, onSubmit, onClose }) => {
+    const [detected, setDetected] = useState<PanelRect[]>([]);
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(drawnRegions.length > 0 ? 0 : null);
+    const [instructions, setInstructions] = useState(initialInstructions);
+
+    useEffect(() => {
+        let cancelled = false;
+        detectPanels(page.imageUrl, page.size).then(panels => {
+            if (!cancelled) setDetected(panels);
+        });
+        return () => { cancelled = true; };
+    }, [page.imageUrl, page.size]);
+
+    const regions: SelectableRegion[] = [
+        ...drawnRegions.map((rect, index) => ({ label: `Drawn area ${index + 1}`, rect })),
+        ...detected.map((rect, index) => ({ label: `Panel ${index + 1}`, rect })),
+    ];
+    const selected = selectedIndex !== null ? regions[selectedIndex] : undefined;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] overflow-y-auto p-6 flex flex-col gap-4" onClick={e => e.stopPropagation()}>
+                <div>
+                    <h3 className="font-heading text-2xl font-bold text-zinc-900">Regenerate a panel</h3>
+                    <p className="text-sm text-zinc-500">Pick a detected panel or an area you drew with the rectangle tool. Only that part of the page is redrawn.</p>
+                </div>
+                <div className="flex flex-col md:flex-row gap-4">
+                    <div
+                        className="relative w-full md:w-3/5 max-h-[60vh] bg-zinc-100 rounded-lg overflow-hidden select-none"
+                        style={{ aspectRatio: `${page.size.width} / ${page.size.height}` }}
+                    >
+                        <img src={annotatedImageUrl} alt={`Page ${page.storyPrompt.page_number}`} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+                        {regions.map((region, index) => (
+                            <button
+                                key={`${region.label}-${index}`}
+                                onClick={() => setSelectedIndex(index)}
+                                title={region.label}
+                                className={`absolute border-2 transition-colors ${index === selectedIndex ? 'border-indigo-500 bg-indigo-500/20' : 'border-dashed border-zinc-400/80 hover:bg-indigo-500/10'}`}
+                                style={toPercentBox(region.rect, page)}
+                            />
+                        ))}
+                    </div>
+                    <div className="flex-1 flex flex-col gap-3">
+                        {regions.length === 0 ? (
+                            <p className="text-sm text-zinc-500">No panels were detected on this page. Draw a rectangle around the area to redraw, then try again.</p>
+                        ) : (
+                            <p className="text-sm text-zinc-600">{selected ? `Selected: ${selected.label}` : 'Click a panel on the page to select it.'}</p>
+                        )}
+                        <label className="flex flex-col gap-1 text-sm font-medium text-zinc-600">
+                            Instructions
+                            <textarea
+                                value={instructions}
+                                onChange={e => setInstructions(e.target.value)}
+                                rows={6}
+                                placeholder="Describe what should change in this panel"
+                                className="w-full p-2 text-sm font-normal text-zinc-800 border border-zinc-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                            />
+                        </label>
+                        <div className="flex justify-end gap-2 mt-auto">
+                            <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-zinc-600 rounded-full hover:bg-zinc-100 transition-colors">Cancel</button>
+                            <button
+                                onClick={() => selected && onSubmit(selected.rect, instructions.trim())}
+                                disabled={!selected}
+                                className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-full hover:bg-indigo-700 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+                            >
+                                Redraw panel
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { SavedSessionSummary } from '../types';
+
+interface RecentSessionsProps {
+  sessions: SavedSessionSummary[];
+  onRestore: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  onStartNew: () => void;
+}
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onRestore, onDelete, onStartNew }) => {
+  const [latest, ...others] = sessions;
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col items-center px-4">
+      <h1 className="text-4xl md:text-5xl font-heading font-bold tracking-tight mt-6 text-zinc-900 text-center">
+        Welcome back
+      </h1>
+      <p className="text-lg text-zinc-600 mt-3 text-center">
+        Your work was saved automatically. Pick up where you left off?
+      </p>
+
+      {latest && (
+        <div className="w-full mt-10 bg-white border border-zinc-200 rounded-3xl shadow-lg p-6 flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="flex-grow min-w-0 text-left">
+            <p className="text-xs font-medium uppercase tracking-wide text-indigo-600">Last session</p>
+            <p className="mt-1 text-lg font-medium text-zinc-900 truncate">{latest.title}</p>
+            <p className="text-sm text-zinc-500">
+              {latest.pageCount} {latest.pageCount === 1 ? 'page' : 'pages'} · Saved {formatTimestamp(latest.updatedAt)}
+            </p>
+          </div>
+          <button
+            onClick={() => onRestore(latest.id)}
+            className="px-5 py-2.5 bg-indigo-600 text-white font-medium rounded-full hover:bg-indigo-700 transition-colors shadow-sm flex-shrink-0"
+          >
+            Restore
+          </button>
+        </div>
+      )}
+
+      {others.length > 0 && (
+        <div className="w-full mt-8">
+          <p className="text-sm font-medium text-zinc-600 mb-3 text-left">Recent sessions</p>
+          <ul className="border border-zinc-200 rounded-lg divide-y divide-zinc-200 bg-white">
+            {others.map(session => (
+              <li key={session.id} className="flex items-center gap-3 px-4 py-3">
+                <div className="flex-grow min-w-0 text-left">
+                  <p className="text-sm font-medium text-zinc-800 truncate">{session.title}</p>
+                  <p className="text-xs text-zinc-500">
+                    {session.pageCount} {session.pageCount === 1 ? 'page' : 'pages'} · {formatTimestamp(session.updatedAt)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => onRestore(session.id)}
+                  className="px-3 py-1.5 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => onDelete(session.id)}
+                  className="w-7 h-7 text-zinc-400 hover:text-red-500 rounded-full flex items-center justify-center transition-colors"
+                  aria-label="Delete saved session"
+                  title="Delete saved session"
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={onStartNew}
+        className="mt-8 px-4 py-2 bg-zinc-100 text-zinc-700 font-medium rounded-lg hover:bg-zinc-200 transition-colors"
+      >
+        Start a new comic
+      </button>
+    </div>
+  );
+};
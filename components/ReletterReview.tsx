@@ -0,0 +1,58 @@
+import React from 'react';
+import type { TextElement } from '../types';
+
+export type LetteringChoice = 'new' | 'old';
+
+interface ReletterReviewProps {
+    bubbles: TextElement[]; // Bubbles whose new position differs from the old one
+    choices: Record<string, LetteringChoice>;
+    onChoose: (elementId: string, choice: LetteringChoice) => void;
+    onChooseAll: (choice: LetteringChoice) => void;
+    onKeep: () => void;
+    onDiscard: () => void;
+}
+
+export const ReletterReview: React.FC<ReletterReviewProps> = ({ bubbles, choices, onChoose, onChooseAll, onKeep, onDiscard }) => (
+    <div className="w-full bg-white border border-indigo-200 rounded-2xl p-4 flex flex-col gap-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+                <p className="text-sm font-medium text-zinc-700">New lettering positions</p>
+                <p className="text-xs text-zinc-500">
+                    {bubbles.length === 0
+                        ? 'Every bubble is already where the new placement would put it.'
+                        : 'The page previews your choices. Pick the new or old position for each bubble.'}
+                </p>
+            </div>
+            <div className="flex gap-2">
+                {bubbles.length > 0 && (
+                    <>
+                        <button onClick={() => onChooseAll('new')} className="px-3 py-1 text-xs font-medium text-zinc-600 rounded-md hover:bg-zinc-100 transition-colors">All new</button>
+                        <button onClick={() => onChooseAll('old')} className="px-3 py-1 text-xs font-medium text-zinc-600 rounded-md hover:bg-zinc-100 transition-colors">All old</button>
+                    </>
+                )}
+                <button onClick={onDiscard} className="px-4 py-1.5 text-sm font-medium text-zinc-700 rounded-full border border-zinc-300 hover:bg-zinc-50 transition-colors">Discard</button>
+                <button onClick={onKeep} className="px-4 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-full hover:bg-indigo-700 transition-colors">Keep choices</button>
+            </div>
+        </div>
+        {bubbles.length > 0 && (
+            <ul className="flex flex-col gap-2">
+                {bubbles.map(bubble => (
+                    <li key={bubble.id} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="truncate text-zinc-600" title={bubble.text}>“{bubble.text}”</span>
+                        <div className="inline-flex flex-shrink-0 rounded-lg bg-zinc-100 p-0.5 text-xs font-medium">
+                            {(['new', 'old'] as LetteringChoice[]).map(choice => (
+                                <button
+                                    key={choice}
+                                    onClick={() => onChoose(bubble.id, choice)}
+                                    className={`px-2 py-1 rounded-md transition-colors ${choices[bubble.id] === choice ? 'bg-white text-indigo-600 shadow-sm' : 'text-zinc-500 hover:text-zinc-700'}`}
+                                >
+                                    {choice === 'new' ? 'New position' : 'Old position'}
+                                </button>
+                            ))}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
@@ -1,9 +1,15 @@
 import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
-import type { TextElement } from '../types';
+import type { PageSize, TextElement } from '../types';
 import { parsePx } from '../utils/canvas';
+import { computeBubbleTail, tailToSvgPaths } from '../utils/bubbleGeometry';
+import { BUBBLE_CLASS_NAMES } from '../utils/lettering';
+import { clampBoxToPanel, findPanelForBox } from '../utils/panelDetection';
+import type { PanelRect } from '../utils/panelLayouts';
 
 interface TextElementDisplayProps {
     textElements: TextElement[];
+    pageSize: PageSize;
+    panels?: PanelRect[]; // Detected panels that dropped bubbles snap into
     onUpdate: (elementId: string, newText: string) => void;
     onPositionUpdate?: (elementId: string, newX: string, newY: string) => void;
     onAnchorUpdate?: (elementId: string, newAnchor: { x: string; y: string }) => void;
@@ -14,12 +20,6 @@ interface TextElementDisplayProps {
     onSetEditing: (id: string | null) => void;
 }
 
-const typeToClassMap = {
-    dialogue: 'speech',
-    narrative: 'narration',
-    thoughts: 'thought',
-};
-
 const EditorTextarea: React.FC<{
     element: TextElement;
     onUpdate: (newText: string) => void;
@@ -76,6 +76,8 @@ const EditorTextarea: React.FC<{
 
 export const TextElementDisplay: React.FC<TextElementDisplayProps> = ({ 
     textElements, 
+    pageSize,
+    panels = [],
     onUpdate, 
     onPositionUpdate,
     onAnchorUpdate,
@@ -111,107 +113,9 @@ export const TextElementDisplay: React.FC<TextElementDisplayProps> = ({
                 height: bubbleRect.height
             };
 
-            const bubbleCenterX = bubble.x + bubble.width / 2;
-            const bubbleCenterY = bubble.y + bubble.height / 2;
-
-            if (el.type === 'dialogue') {
-                const dx = anchor.x - bubbleCenterX;
-                const dy = anchor.y - bubbleCenterY;
-                const distance = Math.sqrt(dx * dx + dy * dy);
-
-                if (distance < 10) continue;
-
-                let edgeX = 0, edgeY = 0;
-                const intersections = [];
-                if (dy !== 0) {
-                    const t_top = (bubble.y - bubbleCenterY) / dy;
-                    if (t_top > 0) {
-                        const x = bubbleCenterX + dx * t_top;
-                        if (x >= bubble.x && x <= bubble.x + bubble.width) intersections.push({ x, y: bubble.y, t: t_top });
-                    }
-                    const t_bottom = (bubble.y + bubble.height - bubbleCenterY) / dy;
-                    if (t_bottom > 0) {
-                        const x = bubbleCenterX + dx * t_bottom;
-                        if (x >= bubble.x && x <= bubble.x + bubble.width) intersections.push({ x, y: bubble.y + bubble.height, t: t_bottom });
-                    }
-                }
-                if (dx !== 0) {
-                    const t_left = (bubble.x - bubbleCenterX) / dx;
-                    if (t_left > 0) {
-                        const y = bubbleCenterY + dy * t_left;
-                        if (y >= bubble.y && y <= bubble.y + bubble.height) intersections.push({ x: bubble.x, y, t: t_left });
-                    }
-                    const t_right = (bubble.x + bubble.width - bubbleCenterX) / dx;
-                     if (t_right > 0) {
-                        const y = bubbleCenterY + dy * t_right;
-                        if (y >= bubble.y && y <= bubble.y + bubble.height) intersections.push({ x: bubble.x + bubble.width, y, t: t_right });
-                    }
-                }
-                
-                if (intersections.length > 0) {
-                    const closest = intersections.reduce((min, curr) => curr.t < min.t ? curr : min);
-                    edgeX = closest.x;
-                    edgeY = closest.y;
-                } else { continue; }
-                
-                const tailWidth = 20;
-                let p1, p2;
-                if (Math.abs(edgeY - bubble.y) < 1 || Math.abs(edgeY - (bubble.y + bubble.height)) < 1) { // Top or bottom edge
-                    p1 = { x: Math.max(bubble.x + 5, edgeX - tailWidth / 2), y: edgeY };
-                    p2 = { x: Math.min(bubble.x + bubble.width - 5, edgeX + tailWidth / 2), y: edgeY };
-                } else { // Left or right edge
-                    p1 = { x: edgeX, y: Math.max(bubble.y + 5, edgeY - tailWidth / 2) };
-                    p2 = { x: edgeX, y: Math.min(bubble.y + bubble.height - 5, edgeY + tailWidth / 2) };
-                }
-                
-                const d = `M${anchor.x},${anchor.y} L${p1.x},${p1.y} L${p2.x},${p2.y} Z`;
-                newPaths.push({ id: el.id, d, type: 'tail' });
-
-            } else if (el.type === 'thoughts') {
-                const a = bubble.width / 2;
-                const b = bubble.height * 0.4;
-                if (a <= 0 || b <= 0) continue;
-
-                const dx = anchor.x - bubbleCenterX;
-                const dy = anchor.y - bubbleCenterY;
-                
-                if (dx === 0 && dy === 0) continue;
-
-                const t = 1 / Math.sqrt((dx * dx) / (a * a) + (dy * dy) / (b * b));
-                const edgePoint = {
-                    x: bubbleCenterX + t * dx,
-                    y: bubbleCenterY + t * dy,
-                };
-
-                const gap = 4;
-                const r1 = 10;
-                const r2 = 6;
-                
-                const totalDist = Math.sqrt(dx * dx + dy * dy);
-                if (totalDist === 0) continue;
-                
-                const normDx = dx / totalDist;
-                const normDy = dy / totalDist;
-
-                const dist_to_c1_center = gap + r1;
-                const c1 = {
-                    x: edgePoint.x + normDx * dist_to_c1_center,
-                    y: edgePoint.y + normDy * dist_to_c1_center,
-                    r: r1
-                };
-
-                const dist_between_centers = r1 + gap + r2;
-                const c2 = {
-                    x: c1.x + normDx * dist_between_centers,
-                    y: c1.y + normDy * dist_between_centers,
-                    r: r2
-                };
-
-                const path1 = `M ${c1.x - c1.r},${c1.y} a ${c1.r},${c1.r} 0 1,1 ${c1.r * 2},0 a ${c1.r},${c1.r} 0 1,1 -${c1.r * 2},0`;
-                const path2 = `M ${c2.x - c2.r},${c2.y} a ${c2.r},${c2.r} 0 1,1 ${c2.r * 2},0 a ${c2.r},${c2.r} 0 1,1 -${c2.r * 2},0`;
-
-                newPaths.push({ id: `${el.id}_t1`, d: path1, type: 'thought_bubble' });
-                newPaths.push({ id: `${el.id}_t2`, d: path2, type: 'thought_bubble' });
+            const tail = computeBubbleTail(el.type, bubble, anchor);
+            if (tail) {
+                newPaths.push(...tailToSvgPaths(el.id, tail));
             }
         }
         
@@ -276,8 +180,8 @@ export const TextElementDisplay: React.FC<TextElementDisplayProps> = ({
         const containerRect = containerRef.current?.getBoundingClientRect();
         if (!containerRect) return;
 
-        const scaleX = 1024 / containerRect.width;
-        const scaleY = 1024 / containerRect.height;
+        const scaleX = pageSize.width / containerRect.width;
+        const scaleY = pageSize.height / containerRect.height;
         
         if (draggingId && dragStart) {
             const deltaX = (e.clientX - dragStart.x) * scaleX;
@@ -293,17 +197,40 @@ export const TextElementDisplay: React.FC<TextElementDisplayProps> = ({
             const deltaY = (e.clientY - draggingAnchor.startMouseY) * scaleY;
             const newX = draggingAnchor.startAnchorX + deltaX;
             const newY = draggingAnchor.startAnchorY + deltaY;
-            const clampedX = Math.max(0, Math.min(1024, newX));
-            const clampedY = Math.max(0, Math.min(1024, newY));
+            const clampedX = Math.max(0, Math.min(pageSize.width, newX));
+            const clampedY = Math.max(0, Math.min(pageSize.height, newY));
             onAnchorUpdate(draggingAnchor.elementId, { x: `${clampedX}px`, y: `${clampedY}px` });
         }
-    }, [draggingId, dragStart, draggingAnchor, onPositionUpdate, onAnchorUpdate]);
+    }, [draggingId, dragStart, draggingAnchor, pageSize, onPositionUpdate, onAnchorUpdate]);
+
+    // A dropped bubble is pulled fully inside the panel it mostly covers
+    const snapToPanel = useCallback((elementId: string) => {
+        const element = textElements.find(el => el.id === elementId);
+        const node = bubbleRefs.current.get(elementId);
+        const containerRect = containerRef.current?.getBoundingClientRect();
+        if (!element || !node || !containerRect || panels.length === 0 || !onPositionUpdate) return;
+
+        const bubbleRect = node.getBoundingClientRect();
+        const box = {
+            x: parsePx(element.x),
+            y: parsePx(element.y),
+            width: bubbleRect.width * (pageSize.width / containerRect.width),
+            height: bubbleRect.height * (pageSize.height / containerRect.height),
+        };
+        const panel = findPanelForBox(panels, box);
+        if (!panel) return;
+        const snapped = clampBoxToPanel(box, panel);
+        if (snapped.x !== box.x || snapped.y !== box.y) {
+            onPositionUpdate(elementId, `${snapped.x}px`, `${snapped.y}px`);
+        }
+    }, [textElements, panels, pageSize, onPositionUpdate]);
 
     const handleMouseUp = useCallback(() => {
+        if (draggingId) snapToPanel(draggingId);
         setDraggingId(null);
         setDragStart(null);
         setDraggingAnchor(null);
-    }, []);
+    }, [draggingId, snapToPanel]);
 
     useEffect(() => {
         if (draggingId || draggingAnchor) {
@@ -385,7 +312,7 @@ export const TextElementDisplay: React.FC<TextElementDisplayProps> = ({
                             if (node) bubbleRefs.current.set(el.id, node);
                             else bubbleRefs.current.delete(el.id);
                         }}
-                        className={`text-element ${typeToClassMap[el.type]} pointer-events-auto ${draggingId === el.id ? 'opacity-80 scale-105 shadow-xl' : isSelected ? 'shadow-lg ring-2 ring-blue-400' : 'hover:shadow-lg'} transition-all duration-150 relative ${cursorClass}`}
+                        className={`text-element ${BUBBLE_CLASS_NAMES[el.type]} pointer-events-auto ${draggingId === el.id ? 'opacity-80 scale-105 shadow-xl' : isSelected ? 'shadow-lg ring-2 ring-blue-400' : 'hover:shadow-lg'} transition-all duration-150 relative ${cursorClass}`}
                         style={{
                             top: el.y,
                             left: el.x,
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { PageVariant } from '../types';
+
+interface VariantGalleryProps {
+    pageNumber: number;
+    variants: PageVariant[];
+    activeImageUrl?: string; // Marks the candidate the page currently uses
+    onPick: (variantId: string) => void;
+    onClose?: () => void; // Omitted while generation is waiting for a pick
+}
+
+export const VariantGallery: React.FC<VariantGalleryProps> = ({ pageNumber, variants, activeImageUrl, onPick, onClose }) => (
+    <div className="fixed inset-0 bg-black/60 z-[100] flex items-center justify-center backdrop-blur-sm p-4" onClick={onClose}>
+        <div className="bg-white rounded-2xl shadow-2xl max-w-6xl w-full max-h-[90vh] overflow-y-auto p-6" onClick={e => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="font-heading text-2xl font-bold text-zinc-900">Page {pageNumber} candidates</h3>
+                    <p className="text-sm text-zinc-500">Pick the drawing to letter. The others stay available to swap in later.</p>
+                </div>
+                {onClose && (
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm font-medium text-zinc-600 rounded-full hover:bg-zinc-100 transition-colors"
+                    >
+                        Close
+                    </button>
+                )}
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {variants.map((variant, index) => {
+                    const isActive = variant.imageUrl === activeImageUrl;
+                    return (
+                        <div
+                            key={variant.id}
+                            className={`flex flex-col border rounded-xl overflow-hidden ${isActive ? 'border-indigo-500 ring-2 ring-indigo-500/30' : 'border-zinc-200'}`}
+                        >
+                            <img src={variant.imageUrl} alt={`Page ${pageNumber} candidate ${index + 1}`} className="w-full bg-zinc-100 object-contain aspect-square" />
+                            <div className="flex-1 flex flex-col gap-2 p-3">
+                                <div className="flex items-center justify-between text-sm font-medium text-zinc-700">
+                                    <span>Candidate {index + 1}</span>
+                                    {variant.overallScore !== undefined && <span>{variant.overallScore.toFixed(1)}/10</span>}
+                                </div>
+                                <p className="flex-1 text-xs text-zinc-500 whitespace-pre-line">{variant.reasoning}</p>
+                                <button
+                                    onClick={() => onPick(variant.id)}
+                                    disabled={isActive}
+                                    className="px-4 py-2 bg-indigo-600 text-white text-sm font-medium rounded-full hover:bg-indigo-700 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isActive ? 'In use' : 'Use this one'}
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    </div>
+);
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import type { ComicPage, PageVersion } from '../types';
+import { PAGE_VERSION_LABELS, getActiveVersion, getPageHistory } from '../utils/pageHistory';
+import { CompareSlider } from './CompareSlider';
+
+interface VersionHistoryProps {
+    page: ComicPage;
+    onRestore: (versionId: string) => void;
+}
+
+const formatTime = (createdAt?: string): string =>
+    createdAt ? new Date(createdAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }) : 'Original';
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ page, onRestore }) => {
+    // Picking two versions opens them side by side; the older one is shown as "before"
+    const [compareIds, setCompareIds] = useState<string[]>([]);
+    const history = getPageHistory(page);
+    const active = getActiveVersion(page, history);
+    if (history.length < 2) return null;
+
+    const versionLabel = (version: PageVersion) => `v${history.indexOf(version) + 1} · ${PAGE_VERSION_LABELS[version.source]}`;
+    const compared = history.filter(version => compareIds.includes(version.id));
+
+    const toggleCompare = (id: string) => {
+        setCompareIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id].slice(-2));
+    };
+
+    return (
+        <div className="w-full bg-white border border-zinc-200 rounded-2xl p-4">
+            <div className="flex items-center justify-between mb-3">
+                <p className="text-sm font-medium text-zinc-600">Version history</p>
+                {compareIds.length === 1 && <p className="text-xs text-zinc-400">Pick another version to compare with</p>}
+            </div>
+            <ol className="flex gap-3 overflow-x-auto pb-2">
+                {history.map(version => {
+                    const isActive = version === active;
+                    return (
+                        <li
+                            key={version.id}
+                            className={`flex-shrink-0 w-40 flex flex-col gap-2 border rounded-xl p-2 ${isActive ? 'border-indigo-500 ring-2 ring-indigo-500/20' : 'border-zinc-200'}`}
+                        >
+                            <div className="flex gap-1">
+                                <img src={version.imageUrl} alt={versionLabel(version)} className="flex-1 min-w-0 aspect-square object-contain bg-zinc-100 rounded-md" />
+                                {version.annotatedSnapshot && (
+                                    <a href={version.annotatedSnapshot} target="_blank" rel="noreferrer" title="Annotated page sent for this version" className="flex-1 min-w-0">
+                                        <img src={version.annotatedSnapshot} alt="Annotations" className="w-full aspect-square object-contain bg-zinc-100 rounded-md opacity-80 hover:opacity-100" />
+                                    </a>
+                                )}
+                            </div>
+                            <div className="text-xs">
+                                <p className="font-medium text-zinc-700">{versionLabel(version)}</p>
+                                <p className="text-zinc-400">{formatTime(version.createdAt)}</p>
+                                {version.annotationText && (
+                                    <p className="mt-1 text-zinc-500 line-clamp-3 whitespace-pre-line" title={version.annotationText}>{version.annotationText}</p>
+                                )}
+                            </div>
+                            <div className="flex gap-1 mt-auto">
+                                <button
+                                    onClick={() => onRestore(version.id)}
+                                    disabled={isActive}
+                                    className="flex-1 px-2 py-1 text-xs font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:bg-zinc-300 disabled:cursor-not-allowed transition-colors"
+                                >
+                                    {isActive ? 'Current' : 'Restore'}
+                                </button>
+                                <button
+                                    onClick={() => toggleCompare(version.id)}
+                                    className={`flex-1 px-2 py-1 text-xs font-medium rounded-md border transition-colors ${compareIds.includes(version.id) ? 'text-indigo-600 border-indigo-300 bg-indigo-50' : 'text-zinc-600 border-zinc-200 hover:bg-zinc-50'}`}
+                                >
+                                    Compare
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ol>
+            {compared.length === 2 && (
+                <CompareSlider
+                    beforeUrl={compared[0].imageUrl}
+                    afterUrl={compared[1].imageUrl}
+                    beforeLabel={versionLabel(compared[0])}
+                    afterLabel={versionLabel(compared[1])}
+                    pageSize={page.size}
+                    onClose={() => setCompareIds([])}
+                />
+            )}
+        </div>
+    );
+};
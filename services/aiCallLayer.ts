@@ -0,0 +1,174 @@
+import type { ContentPart } from './providers';
+
+// Shared wrapper for every model call: a client-side requests/tokens-per-minute limiter
+// used by all concurrent page workers, plus retries with exponential backoff and jitter.
+
+export const RATE_LIMITS = {
+    requestsPerMinute: 30,
+    tokensPerMinute: 500_000,
+};
+
+const RETRY_POLICY = {
+    maxAttempts: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+};
+
+const WINDOW_MS = 60_000;
+// Gemini bills each inline image as a fixed number of tokens
+const TOKENS_PER_IMAGE = 258;
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface CallDelayNotice {
+    reason: 'retry' | 'throttle';
+    delayMs: number;
+    attempt: number; // The attempt that will run after the delay
+    maxAttempts: number;
+    detail: string;
+}
+
+export type CallDelayCallback = (notice: CallDelayNotice) => void;
+
+export const estimateTokens = (parts: ContentPart[]): number =>
+    parts.reduce((sum, part) => sum + ('text' in part ? Math.ceil(part.text.length / 4) : TOKENS_PER_IMAGE), 0);
+
+export const isAbortError = (error: any): boolean => error?.name === 'AbortError';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const createRateLimiter = () => {
+    const window: { time: number; tokens: number }[] = [];
+    let queue: Promise<void> = Promise.resolve();
+
+    const waitTime = (tokens: number) => {
+        const now = Date.now();
+        while (window.length > 0 && now - window[0].time >= WINDOW_MS) {
+            window.shift();
+        }
+        if (window.length === 0) return 0;
+
+        const usedTokens = window.reduce((sum, entry) => sum + entry.tokens, 0);
+        if (window.length < RATE_LIMITS.requestsPerMinute && usedTokens + tokens <= RATE_LIMITS.tokensPerMinute) {
+            return 0;
+        }
+        return window[0].time + WINDOW_MS - now;
+    };
+
+    // Callers are admitted one at a time, in order, so concurrent pages share the budget fairly
+    const acquire = (tokens: number, onWait: (delayMs: number) => void, signal?: AbortSignal): Promise<void> => {
+        const turn = queue.then(async () => {
+            signal?.throwIfAborted();
+            let delay = waitTime(tokens);
+            while (delay > 0) {
+                onWait(delay);
+                await sleep(delay, signal);
+                delay = waitTime(tokens);
+            }
+            window.push({ time: Date.now(), tokens });
+        });
+        queue = turn.catch(() => {});
+        return turn;
+    };
+
+    return { acquire };
+};
+
+const rateLimiter = createRateLimiter();
+
+const getStatus = (error: any): number | undefined => {
+    if (typeof error?.status === 'number') return error.status;
+    const code = String(error?.message ?? '').match(/"code"\s*:\s*(\d{3})/);
+    return code ? Number(code[1]) : undefined;
+};
+
+export const isRetryableError = (error: any): boolean => {
+    if (isAbortError(error)) return false;
+    const status = getStatus(error);
+    if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+    const message = String(error?.message ?? '');
+    // fetch() rejects with a TypeError when the network drops
+    return error instanceof TypeError || /RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|timed? ?out/i.test(message);
+};
+
+// The Gemini API reports retry-after as a RetryInfo `retryDelay` in the error body
+export const getRetryAfterMs = (error: any): number | undefined => {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    const message = String(error?.message ?? '');
+    const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    if (retryDelay) return Math.ceil(Number(retryDelay[1]) * 1000);
+    const retryAfter = message.match(/retry-after["':\s]+(\d+)/i);
+    if (retryAfter) return Number(retryAfter[1]) * 1000;
+    return undefined;
+};
+
+const backoffDelay = (attempt: number) => {
+    const exponential = Math.min(RETRY_POLICY.maxDelayMs, RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1));
+    // "Equal jitter": keep half the delay, randomise the rest so workers don't retry in lockstep
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+const describeError = (error: any) => {
+    const status = getStatus(error);
+    if (status === 429) return 'rate limited';
+    if (status !== undefined && status >= 500) return 'server busy';
+    return 'connection problem';
+};
+
+export const formatDelayNotice = (notice: CallDelayNotice): string => {
+    const seconds = Math.max(1, Math.round(notice.delayMs / 1000));
+    return notice.reason === 'throttle'
+        ? `Waiting ${seconds}s for rate limit...`
+        : `${notice.detail[0].toUpperCase()}${notice.detail.slice(1)}, retrying in ${seconds}s (${notice.attempt}/${notice.maxAttempts})...`;
+};
+
+/**
+ * Runs a model call through the shared rate limiter, retrying transient failures
+ * (429, 5xx, network errors) with exponential backoff and jitter, or after the
+ * server's requested retry delay when it sends one. Aborting `signal` stops waiting
+ * immediately and rejects with the abort reason.
+ */
+export const callWithRetry = async <T>(
+    label: string,
+    parts: ContentPart[],
+    call: () => Promise<T>,
+    onDelay?: CallDelayCallback,
+    signal?: AbortSignal,
+): Promise<T> => {
+    const tokens = estimateTokens(parts);
+
+    for (let attempt = 1; ; attempt++) {
+        await rateLimiter.acquire(tokens, delayMs => {
+            console.log(`⏳ [Rate Limit] ${label} waiting ${delayMs}ms for client-side rate limit`);
+            onDelay?.({ reason: 'throttle', delayMs, attempt, maxAttempts: RETRY_POLICY.maxAttempts, detail: 'rate limit' });
+        }, signal);
+
+        try {
+            return await call();
+        } catch (e) {
+            if (signal?.aborted || attempt >= RETRY_POLICY.maxAttempts || !isRetryableError(e)) {
+                throw e;
+            }
+            const retryAfter = getRetryAfterMs(e);
+            const delayMs = retryAfter !== undefined ? retryAfter + Math.round(Math.random() * 500) : backoffDelay(attempt);
+            const detail = describeError(e);
+            console.warn(`🔁 [Retry] ${label} failed (${detail}), attempt ${attempt} of ${RETRY_POLICY.maxAttempts}. Retrying in ${delayMs}ms.`, e);
+            onDelay?.({ reason: 'retry', delayMs, attempt: attempt + 1, maxAttempts: RETRY_POLICY.maxAttempts, detail });
+            await sleep(delayMs, signal);
+        }
+    }
+};
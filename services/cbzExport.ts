@@ -0,0 +1,58 @@
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import type { ComicPage, PageSize, ReadingDirection } from '../types';
+import { renderPageToCanvas, canvasToBlob } from '../utils/pageRenderer';
+import { deriveComicTitle, escapeXml } from '../utils/comicMetadata';
+
+interface CbzExportOptions {
+    prompt: string;
+    readingDirection: ReadingDirection;
+    onProgress?: (completedPages: number, totalPages: number) => void;
+}
+
+const pageFileName = (index: number) => `page-${String(index + 1).padStart(3, '0')}.jpg`;
+
+export const createComicInfoXml = (prompt: string, readingDirection: ReadingDirection, pageSizes: PageSize[]): string => {
+    const now = new Date();
+    const pageCount = pageSizes.length;
+    const pages = pageSizes.map((pageSize, i) =>
+        `    <Page Image="${i}"${i === 0 ? ' Type="FrontCover"' : ''} ImageWidth="${pageSize.width}" ImageHeight="${pageSize.height}" />`
+    ).join('\n');
+
+    return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <Title>${escapeXml(deriveComicTitle(prompt))}</Title>
+  <Summary>${escapeXml(prompt.trim())}</Summary>
+  <Notes>Created with Manga Weaver AI</Notes>
+  <Year>${now.getFullYear()}</Year>
+  <Month>${now.getMonth() + 1}</Month>
+  <Day>${now.getDate()}</Day>
+  <PageCount>${pageCount}</PageCount>
+  <Manga>${readingDirection === 'rtl' ? 'YesAndRightToLeft' : 'No'}</Manga>
+  <Pages>
+${pages}
+  </Pages>
+</ComicInfo>
+`;
+};
+
+/**
+ * Builds a CBZ archive: one flattened, lettered JPEG per page plus ComicInfo.xml.
+ */
+export const createCbzArchive = async (pages: ComicPage[], options: CbzExportOptions): Promise<Blob> => {
+    const files: Zippable = {};
+    const pageSizes: PageSize[] = [];
+
+    for (let i = 0; i < pages.length; i++) {
+        const canvas = await renderPageToCanvas(pages[i]);
+        pageSizes.push({ width: canvas.width, height: canvas.height });
+        const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+        // Already-compressed JPEGs are stored rather than deflated
+        files[pageFileName(i)] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }];
+        options.onProgress?.(i + 1, pages.length);
+    }
+
+    files['ComicInfo.xml'] = strToU8(createComicInfoXml(options.prompt, options.readingDirection, pageSizes));
+
+    const archive = zipSync(files);
+    return new Blob([archive], { type: 'application/vnd.comicbook+zip' });
+};
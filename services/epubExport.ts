@@ -0,0 +1,198 @@
+import { zipSync, strToU8, type Zippable } from 'fflate';
+import type { ComicPage, PageSize, ReadingDirection } from '../types';
+import { layoutPageBubbles, BUBBLE_BORDER_COLOR, BUBBLE_CLASS_NAMES, BUBBLE_TEXT_COLOR, BUBBLE_STYLES, type BubbleLayout } from '../utils/lettering';
+import { tailToSvgPaths } from '../utils/bubbleGeometry';
+import { deriveComicTitle, escapeXml } from '../utils/comicMetadata';
+import { dataUrlToBytes, getDataUrlMimeType } from '../utils/dataUrl';
+
+// Pages keep the editor's pixel coordinate system (the page's own size) as their fixed-layout viewport
+
+interface EpubExportOptions {
+    prompt: string;
+    readingDirection: ReadingDirection;
+}
+
+const pageId = (index: number) => `page-${String(index + 1).padStart(3, '0')}`;
+
+interface EpubPageEntry {
+    imageId: string;
+    imageHref: string;
+    mimeType: string;
+    hasTails: boolean;
+}
+
+const extensionForMimeType = (mimeType: string) => {
+    switch (mimeType) {
+        case 'image/jpeg': return 'jpg';
+        case 'image/webp': return 'webp';
+        case 'image/gif': return 'gif';
+        default: return 'png';
+    }
+};
+
+const createAltText = (page: ComicPage) =>
+    page.storyPrompt.panels.map(p => `Panel ${p.panel_number}: ${p.visual_description}`).join(' ');
+
+const createStylesheet = () => {
+    const rules = (Object.keys(BUBBLE_STYLES) as Array<keyof typeof BUBBLE_STYLES>).map(type => {
+        const style = BUBBLE_STYLES[type];
+        return `.bubble.${BUBBLE_CLASS_NAMES[type]} {
+  font-family: "${style.fontFamily}", Georgia, serif;
+  font-style: ${style.fontStyle};
+  font-weight: ${style.fontWeight};
+  font-size: ${style.fontSize}px;
+  line-height: ${style.lineHeight};
+  letter-spacing: ${style.letterSpacing}px;
+  padding: ${style.paddingY}px ${style.paddingX}px;
+  border-width: ${style.borderWidth}px;
+  background-color: ${style.background};
+}`;
+    }).join('\n');
+
+    return `@page { margin: 0; }
+html, body { margin: 0; padding: 0; }
+body { position: relative; overflow: hidden; }
+.art { position: absolute; top: 0; left: 0; width: 100%; height: 100%; object-fit: contain; }
+.tails { position: absolute; top: 0; left: 0; }
+.bubble { position: absolute; box-sizing: border-box; margin: 0; border-style: solid; border-color: ${BUBBLE_BORDER_COLOR}; color: ${BUBBLE_TEXT_COLOR}; overflow: visible; }
+.bubble.speech { border-radius: 12px; }
+.bubble.thought { border-radius: 50% / 40%; border-style: dashed; }
+${rules}
+`;
+};
+
+const createBubbleMarkup = (layout: BubbleLayout) => {
+    const { rect, lines, element } = layout;
+    const text = lines.map(escapeXml).join('<br/>');
+    return `    <p class="bubble ${BUBBLE_CLASS_NAMES[element.type]}" style="left: ${rect.x}px; top: ${rect.y}px; width: ${rect.width}px; height: ${rect.height}px;">${text}</p>`;
+};
+
+const createTailMarkup = (layouts: BubbleLayout[], size: PageSize) => {
+    const paths = layouts.flatMap(layout => {
+        if (!layout.tail) return [];
+        return tailToSvgPaths(layout.element.id, layout.tail).map(p =>
+            `      <path d="${p.d}" fill="${layout.style.background}" stroke="${BUBBLE_BORDER_COLOR}" stroke-width="2"${p.type === 'thought_bubble' ? ' stroke-dasharray="4 4"' : ''}/>`
+        );
+    });
+    if (paths.length === 0) return '';
+    return `    <svg class="tails" xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}" viewBox="0 0 ${size.width} ${size.height}" aria-hidden="true">
+${paths.join('\n')}
+    </svg>
+`;
+};
+
+const createPageXhtml = (page: ComicPage, index: number, imageHref: string, layouts: BubbleLayout[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+  <head>
+    <meta charset="UTF-8"/>
+    <meta name="viewport" content="width=${page.size.width}, height=${page.size.height}"/>
+    <title>Page ${index + 1}</title>
+    <link rel="stylesheet" type="text/css" href="../styles.css"/>
+  </head>
+  <body epub:type="bodymatter" style="width: ${page.size.width}px; height: ${page.size.height}px;">
+    <img class="art" src="${imageHref}" alt="${escapeXml(createAltText(page))}"/>
+${createTailMarkup(layouts, page.size)}${layouts.map(createBubbleMarkup).join('\n')}
+  </body>
+</html>
+`;
+
+const createContainerXml = () => `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+const createNavXhtml = (title: string, pageCount: number) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+  </head>
+  <body>
+    <nav epub:type="toc" id="toc">
+      <h1>${escapeXml(title)}</h1>
+      <ol>
+${Array.from({ length: pageCount }, (_, i) => `        <li><a href="pages/${pageId(i)}.xhtml">Page ${i + 1}</a></li>`).join('\n')}
+      </ol>
+    </nav>
+    <nav epub:type="page-list" hidden="hidden">
+      <ol>
+${Array.from({ length: pageCount }, (_, i) => `        <li><a href="pages/${pageId(i)}.xhtml">${i + 1}</a></li>`).join('\n')}
+      </ol>
+    </nav>
+  </body>
+</html>
+`;
+
+const createPackageOpf = (
+    title: string,
+    prompt: string,
+    entries: EpubPageEntry[],
+    readingDirection: ReadingDirection,
+) => {
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const manifestPages = entries.map((entry, i) => `    <item id="${pageId(i)}" href="pages/${pageId(i)}.xhtml" media-type="application/xhtml+xml"${entry.hasTails ? ' properties="svg"' : ''}/>`).join('\n');
+    const manifestImages = entries.map((entry, i) => `    <item id="${entry.imageId}" href="${entry.imageHref}" media-type="${entry.mimeType}"${i === 0 ? ' properties="cover-image"' : ''}/>`).join('\n');
+    const spine = entries.map((_, i) => `    <itemref idref="${pageId(i)}"/>`).join('\n');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${crypto.randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:description>${escapeXml(prompt.trim())}</dc:description>
+    <dc:creator>Manga Weaver AI</dc:creator>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">none</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="styles" href="styles.css" media-type="text/css"/>
+${manifestPages}
+${manifestImages}
+  </manifest>
+  <spine page-progression-direction="${readingDirection}">
+${spine}
+  </spine>
+</package>
+`;
+};
+
+/**
+ * Builds a fixed-layout EPUB 3 where the artwork is an image and the lettering is
+ * real, positioned XHTML text so readers can search it and read it aloud.
+ */
+export const createEpubArchive = async (pages: ComicPage[], options: EpubExportOptions): Promise<Blob> => {
+    const title = deriveComicTitle(options.prompt);
+    const files: Zippable = {
+        // The mimetype entry must come first and be stored uncompressed
+        mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+        'META-INF/container.xml': strToU8(createContainerXml()),
+        'OEBPS/styles.css': strToU8(createStylesheet()),
+    };
+
+    const entries: EpubPageEntry[] = [];
+    for (let i = 0; i < pages.length; i++) {
+        const page = pages[i];
+        const mimeType = getDataUrlMimeType(page.imageUrl);
+        const imageHref = `images/${pageId(i)}.${extensionForMimeType(mimeType)}`;
+        files[`OEBPS/${imageHref}`] = [dataUrlToBytes(page.imageUrl), { level: 0 }];
+
+        const layouts = await layoutPageBubbles(page.textElements);
+        files[`OEBPS/pages/${pageId(i)}.xhtml`] = strToU8(createPageXhtml(page, i, `../${imageHref}`, layouts));
+        entries.push({ imageId: `${pageId(i)}-art`, imageHref, mimeType, hasTails: layouts.some(l => l.tail) });
+    }
+
+    files['OEBPS/nav.xhtml'] = strToU8(createNavXhtml(title, pages.length));
+    files['OEBPS/content.opf'] = strToU8(createPackageOpf(title, options.prompt, entries, options.readingDirection));
+
+    const archive = zipSync(files);
+    return new Blob([archive], { type: 'application/epub+zip' });
+};
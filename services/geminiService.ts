@@ -1,6 +1,5 @@
 
-import { GoogleGenAI, Modality, GenerateContentResponse, Type } from "@google/genai";
-import type { ComicPage, StoryOutline, TextElement, TextElementData, ComicPanelPrompt, StoryPagePrompt, ProgressCallback, ProgressUpdate, PageProgress } from '../types';
+import type { ArtStyleId, CharacterProfile, ComicPage, PageSize, PageVariant, QualityCheckSettings, VariantProgress, VerificationResult, VerificationScores, StoryOutline, TextElement, TextElementData, ComicPanelPrompt, StoryPagePrompt, ProgressCallback, ProgressUpdate, PageProgress, GenerationOptions } from '../types';
 import { nanoid } from 'nanoid';
 import { parsePx } from '../utils/canvas';
 import { 
@@ -13,92 +12,123 @@ import {
     createInitialImageVisualPrompt,
     createRetryImageVisualPrompt,
     createTextPlacementPrompt,
-    createRegenerateAnnotatedPagePrompt
+    createRegenerateAnnotatedPagePrompt,
+    createRegeneratePanelPrompt,
+    createCastPrompt,
+    createInsertPageContextPrompt,
+    createStorySummaryPrompt,
+    createContinueStoryContextPrompt,
+    createPageCastPrompt
 } from './prompts';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const fileToGenerativePart = async (file: File) => {
-  const base64EncodedDataPromise = new Promise<string>((resolve) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.readAsDataURL(file);
-  });
-  return {
-    inlineData: { data: await base64EncodedDataPromise, mimeType: file.type },
-  };
+import { getModelProvider, imageUrlToPart, generatedImageToUrl, type ContentPart } from './providers';
+import { callWithRetry, formatDelayNotice, isAbortError, type CallDelayCallback } from './aiCallLayer';
+import { runWorkerPool } from '../utils/workerPool';
+import { findCharacter, getCharactersOnPage, normalizeOutlineCharacters, withCharacterNames } from '../utils/characters';
+import { MAX_PANELS_PER_LAYOUT, PANEL_LAYOUTS, getLayoutPanelRects, getSeparatePanelCount, mergeInsetPanels, resolvePanelLayout, type PanelLayout, type PanelRect } from '../utils/panelLayouts';
+import { detectPanels, findPanelForBox } from '../utils/panelDetection';
+import { compositePanel, cropImageRegion } from '../utils/panelCompositing';
+import { getLayoutKeepOut, solveTextPlacement } from '../utils/textPlacement';
+import { BUBBLE_MAX_WIDTH, layoutPageBubbles } from '../utils/lettering';
+
+// How many pages are drawn at once unless the caller asks for something else
+export const DEFAULT_PAGE_CONCURRENCY = Number(process.env.PAGE_CONCURRENCY) || 2;
+
+// Used when the quality check is on and the caller doesn't override them
+export const DEFAULT_QUALITY_CHECK: QualityCheckSettings = {
+    passThreshold: Number(process.env.VERIFY_PASS_THRESHOLD) || 7,
+    maxAttempts: Number(process.env.VERIFY_MAX_ATTEMPTS) || 2,
 };
 
-const generateStoryOutline = async (prompt: string, numPages: number, hasCharacterFiles: boolean): Promise<StoryOutline> => {
-    const characterPrompt = hasCharacterFiles
-        ? "The user has provided reference images for the main character(s). Ensure your descriptions are consistent with these visual references."
-        : "The user has not provided character reference images. You must create and maintain a consistent visual description for all main characters throughout the story.";
-
-    const systemInstruction = createStoryOutlineSystemInstruction();
-    const userPrompt = createStoryOutlineUserPrompt(prompt, numPages, characterPrompt);
+// Each character's images are preceded by a label so the model can tell the references apart
+const createReferenceParts = (characters: CharacterProfile[]): ContentPart[] =>
+    characters
+        .filter(character => character.referenceImages.length > 0)
+        .flatMap(character => [
+            { text: `Reference image${character.referenceImages.length > 1 ? 's' : ''} for "${character.name}"${character.description ? ` (${character.description})` : ''}:` },
+            ...character.referenceImages.map(image => imageUrlToPart(image.dataUrl)),
+        ]);
+
+const describePanels = (panels: ComicPanelPrompt[], separator: string): string =>
+    panels.map(p => {
+        const cast = p.characters && p.characters.length > 0 ? ` (Characters: ${p.characters.join(', ')})` : '';
+        return `Panel ${p.panel_number}: ${p.visual_description}${cast}`;
+    }).join(separator);
+
+const generateStoryOutline = async (prompt: string, numPages: number, characters: CharacterProfile[], artStyle: ArtStyleId, pageSize: PageSize, storyContext: string, onDelay?: CallDelayCallback, signal?: AbortSignal): Promise<StoryOutline> => {
+    const characterPrompt = characters.length > 0
+        ? createCastPrompt(characters)
+        : "The user has not defined any characters. You must create and maintain a consistent visual description for all main characters throughout the story.";
+
+    const systemInstruction = createStoryOutlineSystemInstruction(artStyle, pageSize);
+    const userPrompt = createStoryOutlineUserPrompt(prompt, numPages, characterPrompt, storyContext);
     
     console.groupCollapsed('📝 [Prompt] Generating Story Outline');
     console.log('System Instruction:', systemInstruction);
     console.log('User Prompt:', userPrompt);
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: userPrompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        pages: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    page_number: { type: Type.INTEGER },
-                                    panels: {
-                                        type: Type.ARRAY,
-                                        items: {
-                                            type: Type.OBJECT,
-                                            properties: {
-                                                panel_number: { type: Type.INTEGER },
-                                                visual_description: { type: Type.STRING },
-                                                text_elements: {
-                                                    type: Type.ARRAY,
-                                                    items: {
-                                                        type: Type.OBJECT,
-                                                        properties: {
-                                                            type: { type: Type.STRING },
-                                                            text: { type: Type.STRING },
-                                                            character_identifier: { 
-                                                                type: Type.STRING,
-                                                                description: "A unique visual trait to identify the character for dialogue/thoughts. Not needed for narrative." 
-                                                            }
-                                                        },
-                                                        required: ["type", "text"]
-                                                    }
+        const parts: ContentPart[] = [{ text: userPrompt }];
+        const responseText = await callWithRetry('Story outline', parts, () => getModelProvider().generateJson({
+            task: 'story-outline',
+            systemInstruction,
+            parts,
+            signal,
+            responseSchema: {
+                type: 'object',
+                properties: {
+                    pages: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                page_number: { type: 'integer' },
+                                layout: {
+                                    type: 'string',
+                                    enum: PANEL_LAYOUTS.map(layout => layout.id),
+                                    description: "The page layout. The page must have exactly as many panels as the layout."
+                                },
+                                panels: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            panel_number: { type: 'integer' },
+                                            visual_description: { type: 'string' },
+                                            text_elements: {
+                                                type: 'array',
+                                                items: {
+                                                    type: 'object',
+                                                    properties: {
+                                                        type: { type: 'string' },
+                                                        text: { type: 'string' },
+                                                        character_identifier: { 
+                                                            type: 'string',
+                                                            description: "The exact cast name of the speaker, or a unique visual trait for characters outside the cast. Not needed for narrative." 
+                                                        }
+                                                    },
+                                                    required: ["type", "text"]
                                                 }
                                             },
-                                            required: ["panel_number", "visual_description", "text_elements"]
-                                        }
+                                            characters: {
+                                                type: 'array',
+                                                items: { type: 'string' },
+                                                description: "Exact cast names of the characters visible in this panel."
+                                            }
+                                        },
+                                        required: ["panel_number", "visual_description", "text_elements"]
                                     }
-                                },
-                                 required: ["page_number", "panels"]
+                                }
                             },
+                             required: ["page_number", "layout", "panels"]
                         },
                     },
                 },
             },
-        });
+        }), onDelay, signal);
         
-        console.log('🤖 [AI Response] Raw JSON:', response.text);
+        console.log('🤖 [AI Response] Raw JSON:', responseText);
 
-        const jsonText = response.text.trim();
+        const jsonText = responseText.trim();
         const parsed = JSON.parse(jsonText);
         
         if (parsed.pages && Array.isArray(parsed.pages)) {
@@ -108,6 +138,16 @@ const generateStoryOutline = async (prompt: string, numPages: number, hasCharact
             
             parsed.pages.forEach((page: any, pageIndex: number) => {
                 if (page.panels && Array.isArray(page.panels)) {
+                    if (page.panels.length > MAX_PANELS_PER_LAYOUT) {
+                        console.warn(`⚠️ [Layout Constraint] Page ${pageIndex + 1} has ${page.panels.length} panels (max: ${MAX_PANELS_PER_LAYOUT})`);
+                        page.panels = page.panels.slice(0, MAX_PANELS_PER_LAYOUT);
+                    }
+                    const layout = resolvePanelLayout(page.layout, page.panels.length);
+                    if (layout.id !== page.layout) {
+                        console.log(`🔧 [Auto-Fix] Page ${pageIndex + 1} layout "${page.layout}" does not fit ${page.panels.length} panels, using "${layout.id}"`);
+                        page.layout = layout.id;
+                    }
+
                     page.panels.forEach((panel: any, panelIndex: number) => {
                         if (panel.text_elements && Array.isArray(panel.text_elements)) {
                             const textCount = panel.text_elements.length;
@@ -127,12 +167,14 @@ const generateStoryOutline = async (prompt: string, numPages: number, hasCharact
             });
             
             console.log(`📊 [Text Analysis] Total text elements: ${totalTextElements}, Panels with 3+ elements: ${panelsWithTooManyElements}`);
-            console.log('✅ [Success] Parsed and validated Story Outline:', parsed);
-            return parsed as StoryOutline;
+            const outline = normalizeOutlineCharacters(parsed as StoryOutline, characters);
+            console.log('✅ [Success] Parsed and validated Story Outline:', outline);
+            return outline;
         }
         throw new Error("Invalid story outline format received from AI.");
 
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.error("🚫 [Error] Failed to parse story outline JSON:", e);
         throw new Error("The AI failed to generate a valid story outline. Please try a different prompt.");
     } finally {
@@ -140,27 +182,105 @@ const generateStoryOutline = async (prompt: string, numPages: number, hasCharact
     }
 }
 
-const verifyImageContent = async (imageUrl: string, panels: ComicPanelPrompt[], imageParts: any[]): Promise<{ isMatch: boolean; reasoning: string }> => {
+const summarizeStory = async (storyIdea: string, pages: StoryPagePrompt[], onDelay?: CallDelayCallback, signal?: AbortSignal): Promise<string> => {
+    const userPrompt = createStorySummaryPrompt(storyIdea, pages);
+
+    console.groupCollapsed('📝 [Prompt] Summarizing Story So Far');
+    console.log('User Prompt:', userPrompt);
+
+    try {
+        const parts: ContentPart[] = [{ text: userPrompt }];
+        const responseText = await callWithRetry('Story summary', parts, () => getModelProvider().generateJson({
+            task: 'story-summary',
+            parts,
+            signal,
+            responseSchema: {
+                type: 'object',
+                properties: {
+                    summary: { type: 'string' },
+                },
+                required: ['summary'],
+            },
+        }), onDelay, signal);
+
+        console.log('🤖 [AI Response] Raw JSON:', responseText);
+        const summary = JSON.parse(responseText.trim()).summary;
+        if (typeof summary === 'string' && summary.trim()) {
+            return summary.trim();
+        }
+        throw new Error("Invalid story summary format received from AI.");
+    } catch (e) {
+        if (isAbortError(e)) throw e;
+        console.error("🚫 [Error] Failed to summarize the story:", e);
+        throw new Error("The AI failed to summarize the story so far. Please try again.");
+    } finally {
+        console.groupEnd();
+    }
+};
+
+// The panels found in the art when they match the layout, otherwise the layout's own geometry
+const resolvePagePanels = async (imageUrl: string, layout: PanelLayout, pageSize: PageSize): Promise<PanelRect[]> => {
+    const detected = await detectPanels(imageUrl, pageSize);
+    const expectedPanelCount = getSeparatePanelCount(layout);
+    if (detected.length === expectedPanelCount) {
+        const panels = mergeInsetPanels(layout, detected, pageSize);
+        console.log('🔲 [Panel Detection] Using detected panels:', panels);
+        return panels;
+    }
+    console.warn(`⚠️ [Panel Detection] Found ${detected.length} panel(s) but the ${layout.label} layout has ${expectedPanelCount} separate panel(s). Using the layout's panel bounds.`);
+    return getLayoutPanelRects(layout, pageSize);
+};
+
+// A page passes only when every criterion reaches the threshold; the mean ranks pages that don't
+const scoreVerification = (scores: VerificationScores, reasoning: string, passThreshold: number): VerificationResult => {
+    const values = Object.values(scores).filter((value): value is number => typeof value === 'number');
+    return {
+        isMatch: values.every(value => value >= passThreshold),
+        reasoning,
+        scores,
+        overallScore: values.reduce((sum, value) => sum + value, 0) / values.length,
+    };
+};
+
+const formatScores = (scores: VerificationScores): string =>
+    Object.entries(scores).filter(([, value]) => typeof value === 'number').map(([key, value]) => `${key} ${value}/10`).join(', ');
+
+const clampScore = (value: unknown): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(10, value)) : 0;
+
+const verifyImageContent = async (imageUrl: string, panels: ComicPanelPrompt[], layout: PanelLayout, pageCharacters: CharacterProfile[], imageParts: ContentPart[], artStyle: ArtStyleId, pageSize: PageSize, passThreshold: number, onDelay?: CallDelayCallback, signal?: AbortSignal): Promise<VerificationResult> => {
     console.groupCollapsed(`🔎 [Verification] Verifying generated image content`);
+    const hasCast = pageCharacters.length > 0;
     
     try {
-        const mimeType = imageUrl.substring(imageUrl.indexOf(":") + 1, imageUrl.indexOf(";"));
-        const data = imageUrl.split(',')[1];
-        const generatedImagePart = { inlineData: { data, mimeType } };
+        // The panel count is checked locally from the gutters; the model scores everything else
+        const detectedPanels = await detectPanels(imageUrl, pageSize);
+        const expectedPanelCount = getSeparatePanelCount(layout);
+        const panelCountMismatch = detectedPanels.length > 0 && detectedPanels.length !== expectedPanelCount
+            ? `The page should be a ${layout.label} layout (${layout.prompt}), but ${detectedPanels.length} separate panel(s) were found between the gutters instead of ${expectedPanelCount}.`
+            : null;
+        if (panelCountMismatch) {
+            console.warn(`⚠️ [Panel Detection] ${panelCountMismatch}`);
+        }
+
+        const generatedImagePart = imageUrlToPart(imageUrl);
 
-        const panelDescriptions = panels.map(p => `Panel ${p.panel_number}: ${p.visual_description}`).join('\n');
+        const panelDescriptions = describePanels(panels, '\n');
 
         const systemInstruction = createVerifyImageSystemInstruction();
 
+        const characterNames = pageCharacters.map(c => c.name).join(', ');
         const characterConsistencyPrompt = imageParts.length > 0
-            ? `4.  **Character Consistency:** Do the characters depicted in the generated comic page visually match the provided reference character images? Pay close attention to hair, clothing, facial features and character specific traits.`
-            : '';
+            ? `5.  **Character Consistency:** Do ${characterNames} in the generated comic page visually match their labelled reference images? Pay close attention to hair, clothing, facial features and character specific traits.`
+            : pageCharacters.length > 0
+                ? `5.  **Character Consistency:** Do ${characterNames} match their descriptions: ${pageCharacters.map(c => `${c.name}${c.description ? ` (${c.description})` : ''}`).join('; ')}?`
+                : '';
         
         const characterReferenceInfo = imageParts.length > 0 
             ? 'and reference images' 
             : '';
 
-        const userPrompt = createVerifyImageUserPrompt(panelDescriptions, panels.length, characterConsistencyPrompt, characterReferenceInfo);
+        const userPrompt = createVerifyImageUserPrompt(panelDescriptions, panels.length, layout.prompt, characterConsistencyPrompt, characterReferenceInfo, artStyle);
         
         console.log('📝 [Input] Verification Prompt:', userPrompt);
         console.log(`🖼️ [Input] Image for Verification:`, imageUrl);
@@ -174,74 +294,95 @@ const verifyImageContent = async (imageUrl: string, panels: ComicPanelPrompt[],
 
         const allParts = [{ text: userPrompt }, generatedImagePart, ...imageParts];
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: allParts },
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        is_match: { 
-                            type: Type.BOOLEAN,
-                            description: "True if the image is a very good match for the script, false otherwise."
-                        },
-                        reasoning: { 
-                            type: Type.STRING,
-                            description: "A detailed panel-wise explanation for your decision."
+        const responseText = await callWithRetry('Verification', allParts, () => getModelProvider().generateJson({
+            task: 'verify-image',
+            systemInstruction,
+            parts: allParts,
+            signal,
+            responseSchema: {
+                type: 'object',
+                properties: {
+                    scores: {
+                        type: 'object',
+                        properties: {
+                            content_match: { type: 'integer', description: "0-10: how well each panel matches the script." },
+                            panel_layout: { type: 'integer', description: "0-10: whether the panel count and arrangement match the layout." },
+                            no_text: { type: 'integer', description: "0-10: 10 if the image is completely free of text and speech bubbles." },
+                            art_style: { type: 'integer', description: "0-10: how closely the page follows the requested art style." },
+                            character_consistency: { type: 'integer', nullable: true, description: "0-10: how well the characters match their references or descriptions. Null when no characters are listed." },
                         },
+                        required: ["content_match", "panel_layout", "no_text", "art_style"],
+                    },
+                    reasoning: { 
+                        type: 'string',
+                        description: "A detailed panel-wise explanation of the scores."
                     },
-                    required: ["is_match", "reasoning"],
                 },
+                required: ["scores", "reasoning"],
             },
-        });
+        }), onDelay, signal);
         
-        const jsonText = response.text.trim();
+        const jsonText = responseText.trim();
         console.log('🤖 [AI Response] Raw JSON:', jsonText);
         const parsed = JSON.parse(jsonText);
 
-        const result = { isMatch: parsed.is_match, reasoning: parsed.reasoning };
-        console.log(`✅ [Result] Verification Result: ${result.isMatch ? 'Match' : 'Mismatch'}. Reasoning: ${result.reasoning}`);
+        const scores: VerificationScores = {
+            contentMatch: clampScore(parsed.scores?.content_match),
+            // Trust the gutters over the model whenever they could be read
+            panelCount: panelCountMismatch ? 0 : detectedPanels.length > 0 ? 10 : clampScore(parsed.scores?.panel_layout),
+            noText: clampScore(parsed.scores?.no_text),
+            artStyle: clampScore(parsed.scores?.art_style),
+            ...(hasCast ? { characterConsistency: clampScore(parsed.scores?.character_consistency) } : {}),
+        };
+        const reasoning = [panelCountMismatch, String(parsed.reasoning ?? '')].filter(Boolean).join('\n');
+        const result = scoreVerification(scores, reasoning, passThreshold);
+        console.log(`✅ [Result] Verification Result: ${result.isMatch ? 'Match' : 'Mismatch'} (${formatScores(scores)}). Reasoning: ${result.reasoning}`);
         return result;
 
     } catch (e) {
+        if (isAbortError(e)) throw e;
         console.error("🚫 [Error] Failed during image verification:", e);
         // If verification fails, assume it's not a match to be safe
-        return { isMatch: false, reasoning: "An error occurred during the verification process." };
+        return scoreVerification(
+            { contentMatch: 0, panelCount: 0, noText: 0, artStyle: 0, ...(hasCast ? { characterConsistency: 0 } : {}) },
+            "An error occurred during the verification process.",
+            passThreshold
+        );
     } finally {
         console.groupEnd();
     }
 };
 
-const getPanelLayoutDescription = (panelCount: number): string => {
-    switch (panelCount) {
-        case 2:
-            return 'either 1x2 or 2x1 grid';
-        case 3:
-            return 'either 1x3 grid or 3x1 grid';
-        case 4:
-            return 'a 2x2 grid';
-        default:
-            // This case should ideally not be hit due to story generation constraints (2-4 panels)
-            return `${panelCount} panels`;
-    }
-};
+interface DrawnCandidate {
+    imageUrl: string;
+    reasoning: string;
+    overallScore?: number;
+}
 
 const generatePageContent = async (
     panels: ComicPanelPrompt[],
-    imageParts: any[],
-    onPageProgress: (update: { message: string, progress: number }) => void,
+    layout: PanelLayout,
+    pageCharacters: CharacterProfile[],
+    imageParts: ContentPart[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    onPageProgress: (update: { message: string, progress: number, reasoning?: string }) => void,
     isQualityCheckEnabled: boolean,
-): Promise<{ imageUrl: string }> => {
-    const MAX_ATTEMPTS = isQualityCheckEnabled ? 2 : 1;
+    qualityCheck: QualityCheckSettings,
+    signal?: AbortSignal,
+): Promise<DrawnCandidate> => {
+    const MAX_ATTEMPTS = isQualityCheckEnabled ? Math.max(1, Math.floor(qualityCheck.maxAttempts)) : 1;
+    // Each attempt gets an equal share of the 10-90% progress range, half drawing and half verifying
+    const attemptSpan = 80 / MAX_ATTEMPTS;
     let lastImageUrl = '';
     let lastReasoning = '';
+    let bestCandidate: (Required<DrawnCandidate> & { attempt: number }) | null = null;
     
     for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        signal?.throwIfAborted();
         console.log(`--- 🎨 Image Generation Attempt ${attempt} of ${MAX_ATTEMPTS} ---`);
         
-        const generationProgress = isQualityCheckEnabled ? (25 + (attempt - 1) * 50) : 50;
+        const generationProgress = isQualityCheckEnabled ? Math.round(10 + (attempt - 1) * attemptSpan) : 50;
         const message = isQualityCheckEnabled ? `Drawing (Attempt ${attempt})...` : 'Drawing...';
 
         onPageProgress({
@@ -249,29 +390,24 @@ const generatePageContent = async (
             progress: generationProgress,
         });
 
-        const model = 'gemini-2.5-flash-image-preview';
-
-        const panelDescriptions = panels.map(p => `Panel ${p.panel_number}: ${p.visual_description}`).join('\n\n');
+        const panelDescriptions = describePanels(panels, '\n\n');
+        const pageCastPrompt = createPageCastPrompt(pageCharacters);
         
         let visualPrompt: string;
-        const promptParts: any[] = [];
+        const promptParts: ContentPart[] = [];
 
         if (attempt === 1 || !lastImageUrl) {
-            const layoutDescription = getPanelLayoutDescription(panels.length);
-            visualPrompt = createInitialImageVisualPrompt(layoutDescription, panelDescriptions);
+            visualPrompt = createInitialImageVisualPrompt(layout.prompt, panelDescriptions, pageCastPrompt);
             promptParts.push({ text: visualPrompt });
             promptParts.push(...imageParts);
         } else {
-            visualPrompt = createRetryImageVisualPrompt(attempt, lastReasoning, panelDescriptions);
-            const mimeType = lastImageUrl.substring(lastImageUrl.indexOf(":") + 1, lastImageUrl.indexOf(";"));
-            const data = lastImageUrl.split(',')[1];
-            const lastImagePart = { inlineData: { data, mimeType } };
+            visualPrompt = createRetryImageVisualPrompt(attempt, lastReasoning, layout.prompt, panelDescriptions, pageCastPrompt);
             promptParts.push({ text: visualPrompt });
-            promptParts.push(lastImagePart);
+            promptParts.push(imageUrlToPart(lastImageUrl));
             promptParts.push(...imageParts);
         }
 
-        const currentSystemInstruction = attempt === 1 ? createGenerateImageSystemInstruction() : createRegenerateFailedImageSystemInstruction();
+        const currentSystemInstruction = attempt === 1 ? createGenerateImageSystemInstruction(artStyle, pageSize) : createRegenerateFailedImageSystemInstruction(artStyle, pageSize);
 
         console.groupCollapsed(`🎨 [Prompt] Generating Page Content (Image) - Attempt ${attempt}`);
         console.log(`System Instruction (${attempt === 1 ? 'Initial' : 'Regeneration'}):`, currentSystemInstruction);
@@ -283,32 +419,22 @@ const generatePageContent = async (
             console.log(`🖼️ [Input] Previous failed image for correction:`, lastImageUrl);
         }
 
-        const contents = {
-            parts: promptParts,
-        };
-        
         let generatedImageUrl: string | null = null;
         try {
-             const response: GenerateContentResponse = await ai.models.generateContent({
-                model,
-                contents,
-                config: {
-                    systemInstruction: currentSystemInstruction,
-                    responseModalities: [Modality.IMAGE, Modality.TEXT],
-                },
-            });
+            const image = await callWithRetry(`Image generation (attempt ${attempt})`, promptParts, () => getModelProvider().generateImage({
+                task: 'generate-image',
+                systemInstruction: currentSystemInstruction,
+                parts: promptParts,
+                signal,
+            }), notice => onPageProgress({ message: formatDelayNotice(notice), progress: generationProgress }), signal);
             
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    const base64ImageBytes: string = part.inlineData.data;
-                    generatedImageUrl = `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-                    console.log(`🖼️ [Output] Generated Image URL (Nano Banana):`, generatedImageUrl);
-                    console.log(
-                        '%c ',
-                        `padding: 200px; background: url(${generatedImageUrl}) no-repeat center/contain;`
-                    );
-                    break;
-                }
+            if (image) {
+                generatedImageUrl = generatedImageToUrl(image);
+                console.log(`🖼️ [Output] Generated Image URL (Nano Banana):`, generatedImageUrl);
+                console.log(
+                    '%c ',
+                    `padding: 200px; background: url(${generatedImageUrl}) no-repeat center/contain;`
+                );
             }
         } finally {
             console.groupEnd();
@@ -319,19 +445,26 @@ const generatePageContent = async (
             
             if (!isQualityCheckEnabled) {
                  console.log(`✅ [Success] Image generated. Skipping verification as Quality Check is off.`);
-                return { imageUrl: generatedImageUrl };
+                return { imageUrl: generatedImageUrl, reasoning: 'Quality check was off.' };
             }
 
-            const verificationProgress = 50 + (attempt - 1) * 40;
+            const verificationProgress = Math.round(10 + (attempt - 0.5) * attemptSpan);
             onPageProgress({
                 message: `Verifying (Attempt ${attempt})...`,
                 progress: verificationProgress,
             });
 
-            const { isMatch, reasoning } = await verifyImageContent(generatedImageUrl, panels, imageParts);
+            const { isMatch, reasoning, overallScore } = await verifyImageContent(generatedImageUrl, panels, layout, pageCharacters, imageParts, artStyle, pageSize, qualityCheck.passThreshold, notice =>
+                onPageProgress({ message: formatDelayNotice(notice), progress: verificationProgress }),
+                signal
+            );
+            onPageProgress({ message: `Scored ${overallScore.toFixed(1)}/10`, progress: verificationProgress, reasoning });
+            if (!bestCandidate || overallScore > bestCandidate.overallScore) {
+                bestCandidate = { imageUrl: generatedImageUrl, reasoning, overallScore, attempt };
+            }
             if (isMatch) {
                 console.log(`✅ [Success] Image passed verification on attempt ${attempt}.`);
-                return { imageUrl: generatedImageUrl };
+                return { imageUrl: generatedImageUrl, reasoning, overallScore };
             } else {
                 lastReasoning = reasoning;
                 console.warn(`⚠️ [Verification Failed] Attempt ${attempt} did not match the prompt. Reasoning: ${reasoning}`);
@@ -346,36 +479,102 @@ const generatePageContent = async (
         }
     }
 
-    if (lastImageUrl) {
-        console.warn(`⚠️ [Final Attempt] Failed to generate a verified image after ${MAX_ATTEMPTS} attempts. Using the last generated image as a fallback.`);
-        return { imageUrl: lastImageUrl };
+    if (bestCandidate) {
+        console.warn(`⚠️ [Final Attempt] Failed to generate a verified image after ${MAX_ATTEMPTS} attempts. Keeping the highest-scoring image from attempt ${bestCandidate.attempt} (${bestCandidate.overallScore.toFixed(1)}/10).`);
+        return { imageUrl: bestCandidate.imageUrl, reasoning: bestCandidate.reasoning, overallScore: bestCandidate.overallScore };
     }
 
     throw new Error(`AI did not return an image for page after ${MAX_ATTEMPTS} attempts.`);
 }
 
-const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPrompt[]): Promise<TextElement[]> => {
+interface ScriptPlacement {
+    element: TextElement;
+    panelNumber: number;
+    lineNumber: number; // Position of the line in its panel's text list, from 1
+    suggested?: boolean; // The element's position came from the model and is used as a hint
+}
+
+// One element per script line, in script order, with the text taken from the script
+const createScriptElements = (panels: ComicPanelPrompt[]): ScriptPlacement[] =>
+    panels.flatMap((panel, panelIndex) => panel.text_elements.map((el, lineIndex) => ({
+        element: { id: nanoid(), x: '0px', y: '0px', type: el.type, text: el.text },
+        panelNumber: panelIndex + 1,
+        lineNumber: lineIndex + 1,
+    })));
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Ties each suggestion from the model back to the script line it was asked for: by line number, then by
+// text, then by type within the same panel. The model's echoed text is never used for the lettering.
+const applySuggestions = (script: ScriptPlacement[], suggestions: ScriptPlacement[]): ScriptPlacement[] => {
+    const result = [...script];
+    let unmatched = suggestions;
+    const claim = (match: (line: ScriptPlacement, suggestion: ScriptPlacement) => boolean) => {
+        unmatched = unmatched.filter(suggestion => {
+            const index = result.findIndex(line => !line.suggested && line.panelNumber === suggestion.panelNumber && match(line, suggestion));
+            if (index === -1) return true;
+            const { x, y, anchor } = suggestion.element;
+            result[index] = { ...result[index], element: { ...result[index].element, x, y, anchor }, suggested: true };
+            return false;
+        });
+    };
+    claim((line, suggestion) => line.lineNumber === suggestion.lineNumber && line.element.type === suggestion.element.type);
+    claim((line, suggestion) => normalizeText(line.element.text) === normalizeText(suggestion.element.text));
+    claim((line, suggestion) => line.element.type === suggestion.element.type);
+    unmatched.forEach(suggestion => {
+        console.warn(`⚠️ [Placement] No script line in panel ${suggestion.panelNumber} for "${suggestion.element.text.substring(0, 30)}..."`);
+    });
+    return result;
+};
+
+// Runs the local solver over measured bubble sizes, starting from the model's suggested positions where there are any
+const solvePagePlacements = async (items: ScriptPlacement[], panelRects: PanelRect[], keepOut: PanelRect[]): Promise<TextElement[]> => {
+    const layouts = await layoutPageBubbles(items.map(item => item.element));
+    const positions = solveTextPlacement(panelRects, items.map(({ element, panelNumber, suggested }, i) => ({
+        panelIndex: panelNumber - 1,
+        width: layouts[i].rect.width,
+        height: layouts[i].rect.height,
+        preferred: suggested ? { x: parsePx(element.x), y: parsePx(element.y) } : undefined,
+        anchor: element.anchor ? { x: parsePx(element.anchor.x), y: parsePx(element.anchor.y) } : undefined,
+    })), keepOut);
+
+    return items.map(({ element, suggested }, i) => {
+        const { x, y } = positions[i];
+        if (suggested && (parsePx(element.x) !== x || parsePx(element.y) !== y)) {
+            console.log(`📐 [Placement] Moved "${element.text.substring(0, 30)}..." from (${element.x}, ${element.y}) to (${x}px, ${y}px)`);
+        }
+        return { ...element, x: `${x}px`, y: `${y}px` };
+    });
+};
+
+// Returns one element per script line, in the order of `panels`
+const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPrompt[], layout: PanelLayout, panelRects: PanelRect[], characters: CharacterProfile[], pageSize: PageSize, onDelay?: CallDelayCallback, signal?: AbortSignal): Promise<TextElement[]> => {
     const allTextElements = panels.flatMap(p => p.text_elements);
     if (allTextElements.length === 0) return [];
 
     console.groupCollapsed(`📍 [Prompt] Getting Text Element Positions for Page`);
+    const layoutKeepOut = getLayoutKeepOut(panelRects, pageSize);
     
-    let response: GenerateContentResponse | undefined;
+    let responseText: string | undefined;
     try {
-        const mimeType = imageUrl.substring(imageUrl.indexOf(":") + 1, imageUrl.indexOf(";"));
-        const data = imageUrl.split(',')[1];
-        const imagePart = { inlineData: { data, mimeType } };
+        const imagePart = imageUrlToPart(imageUrl);
 
         const textList = panels.map(panel => 
             `Panel ${panel.panel_number} Text:\n` +
             panel.text_elements.map((el, i) => {
-                const identifier = el.character_identifier ? `, FOR CHARACTER: "${el.character_identifier}"` : '';
+                const character = findCharacter(characters, el.character_identifier);
+                const appearance = character?.description ? ` (${character.description})` : '';
+                const identifier = el.character_identifier ? `, FOR CHARACTER: "${el.character_identifier}"${appearance}` : '';
                 return `${i + 1}. TYPE: ${el.type}, TEXT: "${el.text}"${identifier}`;
             }).join('\n')
         ).join('\n\n');
 
 
-        const prompt = createTextPlacementPrompt(textList);
+        const panelBounds = panelRects.map((rect, i) =>
+            `     * Panel ${i + 1}: x ${rect.x}-${rect.x + rect.width}, y ${rect.y}-${rect.y + rect.height}`
+        ).join('\n');
+
+        const prompt = createTextPlacementPrompt(textList, pageSize, layout.prompt, panelBounds);
 
         console.log('📝 [Input] Text Element Prompt:', prompt);
         console.log(`🖼️ [Input] Image for Analysis:`, imageUrl);
@@ -384,76 +583,90 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
             `padding: 200px; background: url(${imageUrl}) no-repeat center/contain;`
         );
 
-        const textPart = { text: prompt };
-
-        response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart, imagePart] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        perceived_dimensions: {
-                            type: Type.OBJECT,
-                            properties: {
-                                width: { type: Type.INTEGER },
-                                height: { type: Type.INTEGER },
-                            },
-                            description: "The AI's perceived dimensions of the image."
+        const parts: ContentPart[] = [{ text: prompt }, imagePart];
+
+        responseText = await callWithRetry('Text placement', parts, () => getModelProvider().generateJson({
+            task: 'text-placement',
+            parts,
+            signal,
+            responseSchema: {
+                type: 'object',
+                properties: {
+                    perceived_dimensions: {
+                        type: 'object',
+                        properties: {
+                            width: { type: 'integer' },
+                            height: { type: 'integer' },
                         },
-                        panel_analysis: {
-                            type: Type.OBJECT,
+                        description: "The AI's perceived dimensions of the image."
+                    },
+                    panel_analysis: {
+                        type: 'object',
+                        properties: {
+                            layout_type: { type: 'string', description: "The layout you see, e.g. 'grid-2x2', 'three-rows', 'l-shaped'" },
+                            panel_count: { type: 'integer' },
+                            panel_boundaries: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        panel_number: { type: 'integer' },
+                                        top_left: { type: 'object', properties: { x: { type: 'integer' }, y: { type: 'integer' } } },
+                                        bottom_right: { type: 'object', properties: { x: { type: 'integer' }, y: { type: 'integer' } } }
+                                    },
+                                    required: ["panel_number", "top_left", "bottom_right"]
+                                }
+                            }
+                        },
+                        required: ["layout_type", "panel_count", "panel_boundaries"],
+                        description: "Analysis of the panel layout and boundaries"
+                    },
+                    placements: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
                             properties: {
-                                layout_type: { type: Type.STRING, description: "e.g., '1x3_grid', '1x2_grid', '2x1_grid'" },
-                                panel_count: { type: Type.INTEGER },
-                                panel_boundaries: {
-                                    type: Type.ARRAY,
-                                    items: {
-                                        type: Type.OBJECT,
-                                        properties: {
-                                            panel_number: { type: Type.INTEGER },
-                                            top_left: { type: Type.OBJECT, properties: { x: { type: Type.INTEGER }, y: { type: Type.INTEGER } } },
-                                            bottom_right: { type: Type.OBJECT, properties: { x: { type: Type.INTEGER }, y: { type: Type.INTEGER } } }
-                                        },
-                                        required: ["panel_number", "top_left", "bottom_right"]
-                                    }
+                                x_position: { type: 'string', description: "Left position with 'px' suffix, e.g., '150px'" },
+                                y_position: { type: 'string', description: "Top position with 'px' suffix, e.g., '200px'" },
+                                element_type: { type: 'string', enum: ["dialogue", "narrative", "thoughts"] },
+                                text: { type: 'string' },
+                                panel_number: { type: 'integer', description: "Which panel this text belongs to" },
+                                line_number: { type: 'integer', description: "The number of this text in its panel's text list" },
+                                placement_reasoning: { type: 'string', description: "Brief explanation of why this position was chosen" },
+                                anchor_position: {
+                                    type: 'object',
+                                    properties: {
+                                        x: { type: 'string', description: "Anchor X with 'px' suffix" },
+                                        y: { type: 'string', description: "Anchor Y with 'px' suffix" },
+                                    },
+                                    nullable: true,
+                                    description: "For dialogue/thoughts bubbles, specifies the point the tail should aim at."
                                 }
                             },
-                            required: ["layout_type", "panel_count", "panel_boundaries"],
-                            description: "Analysis of the panel layout and boundaries"
+                            required: ["x_position", "y_position", "element_type", "text", "panel_number", "line_number", "placement_reasoning"]
                         },
-                        placements: {
-                            type: Type.ARRAY,
-                            items: {
-                                type: Type.OBJECT,
-                                properties: {
-                                    x_position: { type: Type.STRING, description: "Left position with 'px' suffix, e.g., '150px'" },
-                                    y_position: { type: Type.STRING, description: "Top position with 'px' suffix, e.g., '200px'" },
-                                    element_type: { type: Type.STRING, enum: ["dialogue", "narrative", "thoughts"] },
-                                    text: { type: Type.STRING },
-                                    panel_number: { type: Type.INTEGER, description: "Which panel this text belongs to" },
-                                    placement_reasoning: { type: Type.STRING, description: "Brief explanation of why this position was chosen" },
-                                    anchor_position: {
-                                        type: Type.OBJECT,
-                                        properties: {
-                                            x: { type: Type.STRING, description: "Anchor X with 'px' suffix" },
-                                            y: { type: Type.STRING, description: "Anchor Y with 'px' suffix" },
-                                        },
-                                        nullable: true,
-                                        description: "For dialogue/thoughts bubbles, specifies the point the tail should aim at."
-                                    }
-                                },
-                                required: ["x_position", "y_position", "element_type", "text", "panel_number", "placement_reasoning"]
-                            },
-                        }
                     },
-                     required: ["perceived_dimensions", "panel_analysis", "placements"]
+                    avoid_regions: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                x: { type: 'integer' },
+                                y: { type: 'integer' },
+                                width: { type: 'integer' },
+                                height: { type: 'integer' },
+                                description: { type: 'string', description: "What is there, e.g. 'the knight's face'" },
+                            },
+                            required: ["x", "y", "width", "height"],
+                        },
+                        description: "Faces, hands and important objects the lettering must not cover, in page pixels."
+                    }
                 },
+                 required: ["perceived_dimensions", "panel_analysis", "placements"]
             },
-        });
+        }), onDelay, signal);
 
-        const jsonText = response.text.trim();
+        const jsonText = responseText.trim();
         console.log('🤖 [AI Response] Raw JSON from AI:', jsonText);
         
         const parsed: any = JSON.parse(jsonText);
@@ -462,7 +675,7 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
         console.log('🎭 [AI Panel Analysis] Panel layout analysis:', parsed.panel_analysis);
 
         const parsedArray: any[] = parsed.placements;
-        console.log('📍 [AI Positioning] Parsed positioning data from 1024x1024 space:', parsedArray);
+        console.log(`📍 [AI Positioning] Parsed positioning data from ${pageSize.width}x${pageSize.height} space:`, parsedArray);
         
         parsedArray.forEach((item, index) => {
             if (item.placement_reasoning) {
@@ -470,25 +683,8 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
             }
         });
 
-        const panelBoundaries = parsed.panel_analysis?.panel_boundaries || [];
-        const panelMap = new Map();
-        panelBoundaries.forEach((panel: any) => {
-            panelMap.set(panel.panel_number, {
-                minX: panel.top_left.x,
-                minY: panel.top_left.y,
-                maxX: panel.bottom_right.x,
-                maxY: panel.bottom_right.y
-            });
-        });
-
-        const checkTextElementOverlap = (x1: number, y1: number, x2: number, y2: number): boolean => {
-            return Math.abs(x1 - x2) < 280 && Math.abs(y1 - y2) < 130;
-        };
-
-        const positionedElements: { x: number; y: number; panel: number }[] = [];
-
-        const aiElements: TextElement[] = parsedArray
-            .map((item: any): TextElement | null => {
+        const aiElements: ScriptPlacement[] = parsedArray
+            .map((item: any): ScriptPlacement | null => {
                 if (
                     typeof item.x_position === 'string' &&
                     typeof item.y_position === 'string' &&
@@ -498,35 +694,7 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
                     const x = parsePx(item.x_position);
                     const y = parsePx(item.y_position);
                     
-                    console.log(`📍 [AI Coordinates] Using exact AI placement for "${item.text.substring(0, 30)}...": (${x}, ${y})`);
-                    
-                    if (x < 0 || x + 250 > 1024 || y < 0 || y + 100 > 1024) {
-                        console.warn(`⚠️ [Coordinate Warning] AI coordinates for "${item.text.substring(0, 30)}...": (${x}, ${y}) may extend beyond 1024x1024 canvas bounds`);
-                    }
-
-                    if (item.panel_number && panelMap.has(item.panel_number)) {
-                        const panel = panelMap.get(item.panel_number);
-                        const finalX = parsePx(item.x_position);
-                        const finalY = parsePx(item.y_position);
-                        
-                        if (finalX < panel.minX || finalX > panel.maxX || finalY < panel.minY || finalY > panel.maxY) {
-                            console.warn(`⚠️ [Panel Warning] Text "${item.text.substring(0, 30)}..." at (${finalX}, ${finalY}) appears outside Panel ${item.panel_number} boundaries: (${panel.minX}-${panel.maxX}, ${panel.minY}-${panel.maxY})`);
-                        } else {
-                            console.log(`✅ [Panel Info] Text for Panel ${item.panel_number} positioned within boundaries`);
-                        }
-                    }
-
-                    const currentX = parsePx(item.x_position);
-                    const currentY = parsePx(item.y_position);
-                    const currentPanel = item.panel_number || 1;
-                    
-                    const overlappingElements = positionedElements.filter(pos => 
-                        pos.panel === currentPanel && checkTextElementOverlap(currentX, currentY, pos.x, pos.y)
-                    );
-                    
-                    if (overlappingElements.length > 0) {
-                        console.warn(`⚠️ [Overlap Info] Text "${item.text.substring(0, 30)}..." at (${currentX}, ${currentY}) may overlap with ${overlappingElements.length} other text element(s) in Panel ${currentPanel}`);
-                    }
+                    console.log(`📍 [AI Coordinates] AI placement for "${item.text.substring(0, 30)}...": (${x}, ${y})`);
 
                     let mappedType: TextElement['type'];
                     switch (item.element_type.toLowerCase()) {
@@ -555,7 +723,7 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
                         const anchorX = parsePx(item.anchor_position.x);
                         const anchorY = parsePx(item.anchor_position.y);
                         
-                        if (anchorX >= 0 && anchorX <= 1024 && anchorY >= 0 && anchorY <= 1024) {
+                        if (anchorX >= 0 && anchorX <= pageSize.width && anchorY >= 0 && anchorY <= pageSize.height) {
                             anchor = { x: item.anchor_position.x, y: item.anchor_position.y };
                             console.log(`🎯 [Anchor] ${mappedType} anchor at (${anchorX}, ${anchorY}) for "${item.text.substring(0, 20)}..."`);
                         } else {
@@ -567,43 +735,50 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
 
                     const element = {
                         id: nanoid(),
-                        x: item.x_position,
-                        y: item.y_position,
+                        x: `${x}px`,
+                        y: `${y}px`,
                         type: mappedType,
                         text: item.text,
                         anchor,
                     };
 
-                    console.log(`✅ [Element Created] ${mappedType} at (${item.x_position}, ${item.y_position})${anchor ? ` with anchor (${anchor.x}, ${anchor.y})` : ''}: "${item.text.substring(0, 30)}..."`);
-                    
-                    positionedElements.push({
-                        x: parsePx(item.x_position),
-                        y: parsePx(item.y_position),
-                        panel: item.panel_number || 1
-                    });
-                    
-                    return element;
+                    // A missing or unknown panel number falls back to the panel the suggestion sits in
+                    const panelNumber = panelRects[item.panel_number - 1]
+                        ? item.panel_number
+                        : panelRects.indexOf(findPanelForBox(panelRects, { x, y, width: BUBBLE_MAX_WIDTH, height: 100 }) ?? panelRects[0]) + 1;
+
+                    return { element, panelNumber, lineNumber: Number(item.line_number) || 0 };
                 }
                 console.warn('🚫 [Validation Error] Received invalid or incomplete text element data from AI:', item);
                 return null;
             })
-            .filter((el): el is TextElement => el !== null);
+            .filter((el): el is ScriptPlacement => el !== null);
+
+        if (aiElements.length === 0) throw new Error('The AI returned no usable text placements.');
         
         console.log(`✅ [Success] Parsed ${aiElements.length} elements from AI.`);
-        console.log(`🏁 [Final Result] Returning ${aiElements.length} elements with direct 1024x1024 coordinates.`);
-        aiElements.forEach((element, index) => {
+        const artKeepOut: PanelRect[] = (Array.isArray(parsed.avoid_regions) ? parsed.avoid_regions : [])
+            .filter((region: any) => [region?.x, region?.y, region?.width, region?.height].every(value => typeof value === 'number'))
+            .filter((region: any) => region.width > 0 && region.height > 0)
+            .map((region: any) => ({ x: region.x, y: region.y, width: region.width, height: region.height }));
+        console.log(`🚫 [Keep-Out] ${artKeepOut.length} area(s) of the art to keep lettering off:`, parsed.avoid_regions);
+
+        const finalElements = await solvePagePlacements(applySuggestions(createScriptElements(panels), aiElements), panelRects, [...layoutKeepOut, ...artKeepOut]);
+        console.log(`🏁 [Final Result] Returning ${finalElements.length} elements with direct ${pageSize.width}x${pageSize.height} coordinates.`);
+        finalElements.forEach((element, index) => {
             console.log(`🏁 [Final] ${index + 1}. ${element.type}: "${element.text.substring(0, 25)}..." at (${element.x}, ${element.y})`);
         });
         
-        return aiElements;
+        return finalElements;
 
     } catch (e) {
-        console.error("🚫 [Critical Error] Failed to parse text element positions JSON:", e, response?.text);
+        if (isAbortError(e)) throw e;
+        console.error("🚫 [Critical Error] Failed to parse text element positions JSON:", e, responseText);
         console.error("🔍 [Debug] This usually indicates the AI returned malformed JSON or an unexpected response structure");
         
         try {
-            if (response) {
-                const partialJson = response.text.trim();
+            if (responseText) {
+                const partialJson = responseText.trim();
                 console.log("🧪 [Debug] Raw response length:", partialJson.length);
                 console.log("🧪 [Debug] First 500 chars:", partialJson.substring(0, 500));
                 console.log("🧪 [Debug] Last 200 chars:", partialJson.substring(Math.max(0, partialJson.length - 200)));
@@ -612,16 +787,111 @@ const getTextElementPositions = async (imageUrl: string, panels: ComicPanelPromp
             console.error("🚫 [Debug Error] Could not even extract debug info:", debugError);
         }
         
-        console.log("⚠️ [Fallback] Returning empty text elements array to allow comic display without text");
-        return [];
+        console.log("⚠️ [Fallback] Placing the script's text locally instead");
+        return solvePagePlacements(createScriptElements(panels), panelRects, layoutKeepOut);
     } finally {
         console.groupEnd();
     }
 };
 
-export const generateComicStory = async (prompt: string, files: File[], numPages: number, onProgress: ProgressCallback, isQualityCheckEnabled: boolean): Promise<ComicPage[]> => {
+// Waits for the user's pick without outliving a cancelled run
+const waitForChoice = (choice: Promise<string>, signal?: AbortSignal): Promise<string> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => reject(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        choice
+            .then(resolve, reject)
+            .finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+
+// Draws one page and places its lettering. Progress is reported on the page's own 0-100 scale.
+const generateSinglePage = async (
+    pagePrompt: StoryPagePrompt,
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    isQualityCheckEnabled: boolean,
+    qualityCheck: QualityCheckSettings,
+    onPageProgress: (update: { message: string, progress: number, variants?: VariantProgress[] }) => void,
+    signal?: AbortSignal,
+    onChooseVariant?: GenerationOptions['onChooseVariant'],
+): Promise<{ imageUrl: string; textElements: TextElement[]; variants?: PageVariant[] }> => {
+    onPageProgress({ message: 'Starting...', progress: 5 });
+
+    // Only the characters who appear on this page get their references sent along
+    const pageCharacters = getCharactersOnPage(pagePrompt, characters);
+    const imageParts = createReferenceParts(pageCharacters);
+    console.log(`🎭 [Cast] Page ${pagePrompt.page_number} characters:`, pageCharacters.map(c => c.name));
+    const layout = resolvePanelLayout(pagePrompt.layout, pagePrompt.panels.length);
+    const variantCount = Math.max(1, Math.floor(pagePrompt.variants ?? 1));
+    const variantProgress: VariantProgress[] = Array.from({ length: variantCount }, () => ({ message: 'Waiting...', progress: 0 }));
+    
+    // Image generation takes up to 90% of a single page's progress; candidates are drawn in parallel
+    const candidates = await Promise.allSettled(variantProgress.map((_, variantIndex) => generatePageContent(
+        pagePrompt.panels,
+        layout,
+        pageCharacters,
+        imageParts,
+        artStyle,
+        pageSize,
+        (update) => {
+            variantProgress[variantIndex] = { ...variantProgress[variantIndex], ...update };
+            const averageProgress = variantProgress.reduce((sum, variant) => sum + variant.progress, 0) / variantCount;
+            onPageProgress({
+                message: variantCount > 1 ? `Drawing ${variantCount} candidates...` : update.message,
+                progress: 5 + Math.floor((averageProgress / 100) * 85), // Scale 0-100 to 5-90
+                variants: variantCount > 1 ? [...variantProgress] : undefined,
+            });
+        },
+        isQualityCheckEnabled,
+        qualityCheck,
+        signal
+    )));
+
+    signal?.throwIfAborted();
+    const variants: PageVariant[] = candidates.flatMap(result => result.status === 'fulfilled' ? [{ id: nanoid(), ...result.value }] : []);
+    if (variants.length === 0) {
+        const failure = candidates.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        throw failure?.reason ?? new Error('AI did not return an image for the page.');
+    }
+
+    let chosen = variants.reduce((best, variant) => (variant.overallScore ?? 0) > (best.overallScore ?? 0) ? variant : best);
+    if (variants.length > 1 && onChooseVariant) {
+        onPageProgress({ message: 'Waiting for your pick...', progress: 90, variants: [...variantProgress] });
+        const chosenId = await waitForChoice(onChooseVariant(pagePrompt.page_number, variants), signal);
+        chosen = variants.find(variant => variant.id === chosenId) ?? chosen;
+    }
+    const { imageUrl } = chosen;
+
+    onPageProgress({ message: 'Placing text...', progress: 95 });
+    const panelRects = await resolvePagePanels(imageUrl, layout, pageSize);
+    const textElements = await getTextElementPositions(imageUrl, pagePrompt.panels, layout, panelRects, pageCharacters, pageSize, notice =>
+        onPageProgress({ message: formatDelayNotice(notice), progress: 95 }),
+        signal
+    );
+
+    onPageProgress({ message: 'Done!', progress: 100 });
+    return { imageUrl, textElements, variants: variants.length > 1 ? variants : undefined };
+};
+
+/**
+ * Writes the page-by-page script for a story. The outline can be reviewed and edited
+ * before it is handed to `generateComicPages`.
+ */
+export const createComicOutline = async (
+    prompt: string,
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    numPages: number,
+    onProgress: ProgressCallback,
+    signal?: AbortSignal,
+): Promise<StoryOutline> => {
     const onProgressUpdate = onProgress || (() => {});
-    const CONCURRENCY_LIMIT = 2;
 
     let currentProgress: ProgressUpdate = {
         message: 'Crafting the story outline...',
@@ -631,15 +901,86 @@ export const generateComicStory = async (prompt: string, files: File[], numPages
     };
     onProgressUpdate(currentProgress);
 
-    const storyOutline = await generateStoryOutline(prompt, numPages, files.length > 0);
+    const storyOutline = await generateStoryOutline(prompt, numPages, withCharacterNames(characters), artStyle, pageSize, '', notice => {
+        currentProgress = { ...currentProgress, message: `Crafting the story outline... ${formatDelayNotice(notice)}` };
+        onProgressUpdate(currentProgress);
+    }, signal);
+
+    if (storyOutline.pages.length === 0) {
+        throw new Error("The AI failed to generate a story outline. Please try a different prompt.");
+    }
     
-    currentProgress = { ...currentProgress, message: 'Story outline complete!', progress: 10 };
+    onProgressUpdate({ ...currentProgress, message: 'Story outline complete!', progress: 10 });
+    return storyOutline;
+};
+
+/**
+ * Writes the next pages of an existing comic. The outline model gets the existing scripts and a
+ * summary of the story so far; the new pages are numbered after the last existing one and can be
+ * handed to `generateComicPages` like any other outline.
+ */
+export const createContinuationOutline = async (
+    storyIdea: string,
+    existingPages: StoryPagePrompt[],
+    direction: string,
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    numPages: number,
+    onProgress: ProgressCallback,
+    signal?: AbortSignal,
+): Promise<StoryOutline> => {
+    const onProgressUpdate = onProgress || (() => {});
+
+    let currentProgress: ProgressUpdate = {
+        message: 'Reading the story so far...',
+        progress: 2,
+        stage: 'outline',
+        pageDetails: []
+    };
+    onProgressUpdate(currentProgress);
+
+    const summary = await summarizeStory(storyIdea, existingPages, notice => {
+        onProgressUpdate({ ...currentProgress, message: `Reading the story so far... ${formatDelayNotice(notice)}` });
+    }, signal);
+    console.log('📖 [Continue] Story so far:', summary);
+
+    currentProgress = { ...currentProgress, message: 'Writing the next pages...', progress: 5 };
     onProgressUpdate(currentProgress);
+
+    const storyContext = createContinueStoryContextPrompt(existingPages, summary, direction);
+    const storyOutline = await generateStoryOutline(storyIdea, numPages, withCharacterNames(characters), artStyle, pageSize, storyContext, notice => {
+        onProgressUpdate({ ...currentProgress, message: `Writing the next pages... ${formatDelayNotice(notice)}` });
+    }, signal);
+
+    if (storyOutline.pages.length === 0) {
+        throw new Error("The AI failed to continue the story. Please try again.");
+    }
+
+    onProgressUpdate({ ...currentProgress, message: 'Next pages written!', progress: 10 });
+    return {
+        ...storyOutline,
+        pages: storyOutline.pages.map((page, index) => ({ ...page, page_number: existingPages.length + index + 1 })),
+    };
+};
+
+export const generateComicPages = async (
+    storyOutline: StoryOutline,
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    onProgress: ProgressCallback,
+    isQualityCheckEnabled: boolean,
+    options: GenerationOptions = {},
+): Promise<ComicPage[]> => {
+    const { signal, onPageComplete, onChooseVariant, concurrency = DEFAULT_PAGE_CONCURRENCY } = options;
+    const qualityCheck = { ...DEFAULT_QUALITY_CHECK, ...options.qualityCheck };
+    const onProgressUpdate = onProgress || (() => {});
     
-    const imageParts = await Promise.all(files.map(fileToGenerativePart));
+    const cast = withCharacterNames(characters);
     const numGeneratedPages = storyOutline.pages.length;
     if (numGeneratedPages === 0) {
-        throw new Error("The AI failed to generate a story outline. Please try a different prompt.");
+        throw new Error("The story outline does not contain any pages.");
     }
 
     const initialPageDetails: PageProgress[] = storyOutline.pages.map(p => ({
@@ -648,91 +989,92 @@ export const generateComicStory = async (prompt: string, files: File[], numPages
         progress: 0,
     }));
 
-    currentProgress = {
-        ...currentProgress,
+    let currentProgress: ProgressUpdate = {
         message: `Generating ${numGeneratedPages} comic pages...`,
+        progress: 10,
         stage: 'pages',
         pageDetails: initialPageDetails
     };
     onProgressUpdate(currentProgress);
 
-    const allComicPages: ComicPage[] = [];
-    const pagesToProcess = storyOutline.pages.map((p, i) => ({ pagePrompt: p, index: i }));
-    
     // Progress calculation constants
     const OUTLINE_PROGRESS = 10;
     const PAGE_GEN_PROGRESS = 85; // Pages generation takes from 10% to 95%
     const FINALIZE_PROGRESS = 5;
 
-    for (let i = 0; i < pagesToProcess.length; i += CONCURRENCY_LIMIT) {
-        const chunk = pagesToProcess.slice(i, i + CONCURRENCY_LIMIT);
-        
-        const chunkPromises = chunk.map(({ pagePrompt, index }) => {
-            const processSinglePage = async (): Promise<ComicPage> => {
-                const pageNum = index + 1;
-
-                const onPageProgressCallback = (update: { message: string, progress: number }) => {
-                    const pageDetails = currentProgress.pageDetails ? [...currentProgress.pageDetails] : [];
-                    const pageIndex = pageDetails.findIndex(p => p.pageNum === pageNum);
-                    if (pageIndex !== -1) {
-                        pageDetails[pageIndex] = { ...pageDetails[pageIndex], ...update };
-                    }
+    const processSinglePage = async (pagePrompt: StoryPagePrompt): Promise<ComicPage> => {
+        const pageNum = pagePrompt.page_number;
+        signal?.throwIfAborted();
 
-                    const totalPageProgress = pageDetails.reduce((sum, p) => sum + p.progress, 0);
-                    const avgPageProgress = totalPageProgress / numGeneratedPages;
-                    
-                    const overallProgress = OUTLINE_PROGRESS + (avgPageProgress / 100) * PAGE_GEN_PROGRESS;
+        const onPageProgressCallback = (update: { message: string, progress: number, variants?: VariantProgress[] }) => {
+            const pageDetails = currentProgress.pageDetails ? [...currentProgress.pageDetails] : [];
+            const pageIndex = pageDetails.findIndex(p => p.pageNum === pageNum);
+            if (pageIndex !== -1) {
+                pageDetails[pageIndex] = { ...pageDetails[pageIndex], ...update };
+            }
 
-                    currentProgress = {
-                        ...currentProgress,
-                        progress: Math.floor(overallProgress),
-                        pageDetails
-                    };
-                    onProgressUpdate(currentProgress);
-                };
-                
-                onPageProgressCallback({ message: 'Starting...', progress: 5 });
-                
-                // Image generation takes up to 90% of a single page's progress
-                const { imageUrl } = await generatePageContent(
-                    pagePrompt.panels,
-                    imageParts,
-                    (update) => {
-                         onPageProgressCallback({
-                            message: update.message,
-                            progress: 5 + Math.floor((update.progress / 100) * 85) // Scale 0-100 to 5-90
-                        });
-                    },
-                    isQualityCheckEnabled
-                );
+            const totalPageProgress = pageDetails.reduce((sum, p) => sum + p.progress, 0);
+            const avgPageProgress = totalPageProgress / numGeneratedPages;
+            
+            const overallProgress = OUTLINE_PROGRESS + (avgPageProgress / 100) * PAGE_GEN_PROGRESS;
 
-                onPageProgressCallback({ message: 'Placing text...', progress: 95 });
-                const textElements = await getTextElementPositions(imageUrl, pagePrompt.panels);
-                
-                const finalPage: ComicPage = {
-                    id: nanoid(),
-                    imageUrl,
-                    storyPrompt: pagePrompt,
-                    textElements,
-                };
-
-                onPageProgressCallback({ message: 'Done!', progress: 100 });
-                return finalPage;
+            currentProgress = {
+                ...currentProgress,
+                progress: Math.floor(overallProgress),
+                pageDetails
+            };
+            onProgressUpdate(currentProgress);
+        };
+        
+        try {
+            const { imageUrl, textElements, variants } = await generateSinglePage(
+                pagePrompt,
+                cast,
+                artStyle,
+                pageSize,
+                isQualityCheckEnabled,
+                qualityCheck,
+                onPageProgressCallback,
+                signal,
+                onChooseVariant
+            );
+
+            const finalPage: ComicPage = {
+                id: nanoid(),
+                imageUrl,
+                size: pageSize,
+                storyPrompt: pagePrompt,
+                textElements,
+                variants,
             };
-            return processSinglePage();
-        });
 
-        const chunkResults = await Promise.all(chunkPromises);
-        allComicPages.push(...chunkResults);
-    }
-    
-    const finalOrderedPages = allComicPages.sort((a, b) => {
-        const indexA = storyOutline.pages.findIndex(p => p.page_number === a.storyPrompt.page_number);
-        const indexB = storyOutline.pages.findIndex(p => p.page_number === b.storyPrompt.page_number);
-        return indexA - indexB;
-    });
+            onPageComplete?.(finalPage);
+            return finalPage;
+        } catch (e) {
+            if (isAbortError(e) || signal?.aborted) throw e;
+
+            // Keep the rest of the comic; this page becomes a placeholder that can be retried
+            const message = e instanceof Error ? e.message : 'An unknown error occurred.';
+            console.error(`🚫 [Page Failed] Page ${pageNum} could not be generated:`, e);
+            onPageProgressCallback({ message: 'Failed', progress: 100 });
+
+            const placeholderPage: ComicPage = {
+                id: nanoid(),
+                imageUrl: '',
+                size: pageSize,
+                storyPrompt: pagePrompt,
+                textElements: [],
+                error: message,
+            };
+            onPageComplete?.(placeholderPage);
+            return placeholderPage;
+        }
+    };
 
-    if (finalOrderedPages.length === 0) {
+    // Each worker starts the next page as soon as it is free; results stay in outline order
+    const finalOrderedPages = await runWorkerPool(storyOutline.pages, concurrency, processSinglePage);
+
+    if (finalOrderedPages.length === 0 || finalOrderedPages.every(page => page.error)) {
         throw new Error("The AI failed to generate any comic pages. Please try again.");
     }
     
@@ -745,12 +1087,125 @@ export const generateComicStory = async (prompt: string, files: File[], numPages
     return finalOrderedPages;
 };
 
-export const regeneratePage = async (annotatedImageB64: string, annotationText: string): Promise<{ imageUrl: string }> => {
-    const model = 'gemini-2.5-flash-image-preview';
-    const mimeType = annotatedImageB64.substring(annotatedImageB64.indexOf(":") + 1, annotatedImageB64.indexOf(";"));
-    const data = annotatedImageB64.split(',')[1];
-    
-    const basePrompt = createRegenerateAnnotatedPagePrompt();
+export const generateComicStory = async (
+    prompt: string,
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    numPages: number,
+    onProgress: ProgressCallback,
+    isQualityCheckEnabled: boolean,
+    options: GenerationOptions = {},
+): Promise<ComicPage[]> => {
+    const storyOutline = await createComicOutline(prompt, characters, artStyle, pageSize, numPages, onProgress, options.signal);
+    return generateComicPages(storyOutline, characters, artStyle, pageSize, onProgress, isQualityCheckEnabled, options);
+};
+
+/**
+ * Re-runs image generation and text placement for a single page, e.g. one that failed
+ * during the initial run and was left as a placeholder.
+ */
+export const retryComicPage = async (
+    pagePrompt: StoryPagePrompt,
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    isQualityCheckEnabled: boolean,
+    onPageProgress: (update: { message: string, progress: number }) => void,
+    signal?: AbortSignal,
+): Promise<{ imageUrl: string; textElements: TextElement[]; variants?: PageVariant[] }> => {
+    console.log(`🔁 [Retry Page] Regenerating page ${pagePrompt.page_number}`);
+    return generateSinglePage(pagePrompt, withCharacterNames(characters), artStyle, pageSize, isQualityCheckEnabled, DEFAULT_QUALITY_CHECK, onPageProgress, signal);
+};
+
+/**
+ * Writes and draws one new page from a short prompt. The scripts of the pages on either side
+ * are sent along so the new page fits between them.
+ */
+export const insertComicPage = async (
+    prompt: string,
+    neighbours: { previous?: StoryPagePrompt; next?: StoryPagePrompt },
+    characters: CharacterProfile[],
+    artStyle: ArtStyleId,
+    pageSize: PageSize,
+    isQualityCheckEnabled: boolean,
+    onPageProgress: (update: { message: string, progress: number }) => void,
+    signal?: AbortSignal,
+): Promise<ComicPage> => {
+    const cast = withCharacterNames(characters);
+    const storyContext = createInsertPageContextPrompt(neighbours.previous, neighbours.next);
+
+    onPageProgress({ message: 'Writing the new page...', progress: 0 });
+    const outline = await generateStoryOutline(prompt, 1, cast, artStyle, pageSize, storyContext, notice => {
+        onPageProgress({ message: `Writing the new page... ${formatDelayNotice(notice)}`, progress: 0 });
+    }, signal);
+
+    const [pagePrompt] = outline.pages;
+    if (!pagePrompt) {
+        throw new Error("The AI failed to write the new page. Please try a different prompt.");
+    }
+
+    console.log(`➕ [Insert Page] Drawing the new page:`, pagePrompt);
+    const { imageUrl, textElements, variants } = await generateSinglePage(pagePrompt, cast, artStyle, pageSize, isQualityCheckEnabled, DEFAULT_QUALITY_CHECK, onPageProgress, signal);
+    return { id: nanoid(), imageUrl, size: pageSize, storyPrompt: pagePrompt, textElements, variants };
+};
+
+// Pairs the page's current bubbles with the script lines they came from: same text first, then by type in order.
+// Lines the user deleted have no bubble and bubbles the user added have no line.
+const pairBubblesWithScript = (textElements: TextElement[], scriptLines: TextElementData[]): Map<number, TextElement> => {
+    const pairs = new Map<number, TextElement>();
+    const unpaired = [...textElements];
+    const take = (match: (el: TextElement, line: TextElementData) => boolean) => {
+        scriptLines.forEach((line, lineIndex) => {
+            if (pairs.has(lineIndex)) return;
+            const index = unpaired.findIndex(el => match(el, line));
+            if (index === -1) return;
+            pairs.set(lineIndex, unpaired[index]);
+            unpaired.splice(index, 1);
+        });
+    };
+    take((el, line) => el.text === line.text);
+    take((el, line) => el.type === line.type);
+    return pairs;
+};
+
+/**
+ * Places the lettering of an existing page again against its current art, keeping the text the
+ * user has edited. Returns the page's bubbles with their new positions; bubbles that couldn't be
+ * matched to the script keep their old ones.
+ */
+export const reletterPage = async (page: ComicPage, characters: CharacterProfile[], signal?: AbortSignal): Promise<TextElement[]> => {
+    console.log(`🔤 [Re-letter] Placing lettering again for page ${page.storyPrompt.page_number}`);
+    const cast = withCharacterNames(characters);
+    const { panels } = page.storyPrompt;
+    const layout = resolvePanelLayout(page.storyPrompt.layout, panels.length);
+
+    const pairs = pairBubblesWithScript(page.textElements, panels.flatMap(panel => panel.text_elements));
+    // The bubble behind each line sent for placement, in the same order as the placed elements
+    const placedBubbles: TextElement[] = [];
+    let lineIndex = 0;
+    const editedPanels = panels.map(panel => ({
+        ...panel,
+        text_elements: panel.text_elements.flatMap(line => {
+            const bubble = pairs.get(lineIndex++);
+            if (!bubble) return [];
+            placedBubbles.push(bubble);
+            return [{ ...line, text: bubble.text }];
+        }),
+    }));
+
+    const panelRects = await resolvePagePanels(page.imageUrl, layout, page.size);
+    const placed = await getTextElementPositions(page.imageUrl, editedPanels, layout, panelRects, getCharactersOnPage(page.storyPrompt, cast), page.size, undefined, signal);
+
+    const placedById = new Map(placedBubbles.map((bubble, i) => [bubble.id, placed[i]]));
+    return page.textElements.map(el => {
+        const match = placedById.get(el.id);
+        return match ? { ...el, x: match.x, y: match.y, anchor: match.anchor } : el;
+    });
+};
+
+export const regeneratePage = async (annotatedImageB64: string, annotationText: string, artStyle: ArtStyleId, pageSize: PageSize): Promise<{ imageUrl: string }> => {
+    const basePrompt = createRegenerateAnnotatedPagePrompt(artStyle, pageSize);
     
     let fullPrompt = basePrompt;
     if (annotationText) {
@@ -765,37 +1220,21 @@ export const regeneratePage = async (annotatedImageB64: string, annotationText:
         `padding: 200px; background: url(${annotatedImageB64}) no-repeat center/contain;`
     );
 
-    const contents = {
-        parts: [
-            {
-                inlineData: { data, mimeType },
-            },
-            {
-                text: fullPrompt,
-            },
-        ],
-    };
-
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model,
-            contents,
-            config: {
-                responseModalities: [Modality.IMAGE, Modality.TEXT],
-            },
-        });
-
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                const imageUrl = `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-                console.log(`🖼️ [Output] Regenerated Image URL:`, imageUrl);
-                console.log(
-                    '%c ',
-                    `padding: 200px; background: url(${imageUrl}) no-repeat center/contain;`
-                );
-                return { imageUrl };
-            }
+        const parts: ContentPart[] = [imageUrlToPart(annotatedImageB64), { text: fullPrompt }];
+        const image = await callWithRetry('Page regeneration', parts, () => getModelProvider().generateImage({
+            task: 'regenerate-page',
+            parts,
+        }));
+
+        if (image) {
+            const imageUrl = generatedImageToUrl(image);
+            console.log(`🖼️ [Output] Regenerated Image URL:`, imageUrl);
+            console.log(
+                '%c ',
+                `padding: 200px; background: url(${imageUrl}) no-repeat center/contain;`
+            );
+            return { imageUrl };
         }
 
         throw new Error("AI could not regenerate the image. Please try again.");
@@ -803,3 +1242,42 @@ export const regeneratePage = async (annotatedImageB64: string, annotationText:
         console.groupEnd();
     }
 };
+
+// Redraws one panel from its crop and pastes it back, so the rest of the page stays pixel-for-pixel the same.
+// The crop is cut from the annotated page; the result is composited onto the clean one.
+export const regeneratePanel = async (annotatedImageB64: string, baseImageUrl: string, region: PanelRect, instructions: string, artStyle: ArtStyleId, pageSize: PageSize): Promise<{ imageUrl: string }> => {
+    const cropUrl = await cropImageRegion(annotatedImageB64, region, pageSize);
+
+    let fullPrompt = createRegeneratePanelPrompt(artStyle, region);
+    if (instructions) {
+        fullPrompt += `\n\nInstructions for this panel:\n${instructions}`;
+    }
+
+    console.groupCollapsed('✨ [Prompt] Regenerating Panel (Image)');
+    console.log('📝 [Input] Panel Prompt:', fullPrompt);
+    console.log('📐 [Input] Panel Region:', region);
+    console.log(
+        '%c ',
+        `padding: 100px; background: url(${cropUrl}) no-repeat center/contain;`
+    );
+
+    try {
+        const parts: ContentPart[] = [imageUrlToPart(cropUrl), { text: fullPrompt }];
+        const image = await callWithRetry('Panel regeneration', parts, () => getModelProvider().generateImage({
+            task: 'regenerate-panel',
+            parts,
+        }));
+
+        if (!image) throw new Error("AI could not redraw the panel. Please try again.");
+
+        const imageUrl = await compositePanel(baseImageUrl, generatedImageToUrl(image), region, pageSize);
+        console.log(`🖼️ [Output] Page With Redrawn Panel:`, imageUrl);
+        console.log(
+            '%c ',
+            `padding: 200px; background: url(${imageUrl}) no-repeat center/contain;`
+        );
+        return { imageUrl };
+    } finally {
+        console.groupEnd();
+    }
+};
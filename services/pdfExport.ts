@@ -0,0 +1,162 @@
+import jsPDF from 'jspdf';
+import type { ComicPage, PageSize, TextElement } from '../types';
+import { BUBBLE_BORDER_COLOR, BUBBLE_STYLES, BUBBLE_TEXT_COLOR, layoutPageBubbles, type BubbleLayout, type BubbleStyle } from '../utils/lettering';
+import { loadImage } from '../utils/pageRenderer';
+import { getDataUrlMimeType } from '../utils/dataUrl';
+import { DEFAULT_PAGE_SIZE } from '../utils/pageSizes';
+
+// TTF builds of the lettering webfonts, so the PDF text is selectable and renders identically everywhere
+const FONT_SOURCES: Record<TextElement['type'], { url: string; fallback: { fontName: string; fontStyle: string } }> = {
+    dialogue: {
+        url: 'https://cdn.jsdelivr.net/fontsource/fonts/eb-garamond@latest/latin-700-italic.ttf',
+        fallback: { fontName: 'times', fontStyle: 'bolditalic' },
+    },
+    narrative: {
+        url: 'https://cdn.jsdelivr.net/fontsource/fonts/eb-garamond@latest/latin-500-normal.ttf',
+        fallback: { fontName: 'times', fontStyle: 'normal' },
+    },
+    thoughts: {
+        url: 'https://cdn.jsdelivr.net/fontsource/fonts/libre-baskerville@latest/latin-400-italic.ttf',
+        fallback: { fontName: 'times', fontStyle: 'italic' },
+    },
+};
+
+type PdfFontMap = Record<TextElement['type'], { fontName: string; fontStyle: string }>;
+
+const fontStyleKey = (style: BubbleStyle) => `${style.fontStyle}-${style.fontWeight}`;
+
+const arrayBufferToBinaryString = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return binary;
+};
+
+const embedLetteringFonts = async (pdf: jsPDF): Promise<PdfFontMap> => {
+    const entries = await Promise.all((Object.keys(FONT_SOURCES) as TextElement['type'][]).map(async type => {
+        const source = FONT_SOURCES[type];
+        const style = BUBBLE_STYLES[type];
+        try {
+            const response = await fetch(source.url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const fileName = source.url.substring(source.url.lastIndexOf('/') + 1);
+            pdf.addFileToVFS(fileName, btoa(arrayBufferToBinaryString(await response.arrayBuffer())));
+            pdf.addFont(fileName, style.fontFamily, fontStyleKey(style));
+            return [type, { fontName: style.fontFamily, fontStyle: fontStyleKey(style) }] as const;
+        } catch (e) {
+            console.warn(`⚠️ [PDF] Could not embed ${style.fontFamily} for ${type} text, falling back to ${source.fallback.fontName}:`, e);
+            return [type, source.fallback] as const;
+        }
+    }));
+    return Object.fromEntries(entries) as PdfFontMap;
+};
+
+const imageFormatForDataUrl = (dataUrl: string) => {
+    switch (getDataUrlMimeType(dataUrl)) {
+        case 'image/jpeg': return 'JPEG';
+        case 'image/webp': return 'WEBP';
+        default: return 'PNG';
+    }
+};
+
+const drawPageArt = async (pdf: jsPDF, imageUrl: string, pageSize: PageSize) => {
+    const img = await loadImage(imageUrl);
+    // Same fit as the editor's `object-contain` image
+    const scale = Math.min(pageSize.width / img.naturalWidth, pageSize.height / img.naturalHeight);
+    const width = img.naturalWidth * scale;
+    const height = img.naturalHeight * scale;
+    pdf.addImage(imageUrl, imageFormatForDataUrl(imageUrl), (pageSize.width - width) / 2, (pageSize.height - height) / 2, width, height);
+};
+
+const orientationFor = (size: PageSize) => (size.width > size.height ? 'l' : 'p');
+
+const drawTail = (pdf: jsPDF, layout: BubbleLayout) => {
+    const { tail } = layout;
+    if (!tail) return;
+
+    pdf.setFillColor(layout.style.background);
+    pdf.setDrawColor(BUBBLE_BORDER_COLOR);
+    pdf.setLineWidth(2);
+    if (tail.type === 'tail') {
+        const [anchor, p1, p2] = tail.points;
+        pdf.setLineDashPattern([], 0);
+        pdf.triangle(anchor.x, anchor.y, p1.x, p1.y, p2.x, p2.y, 'FD');
+    } else {
+        pdf.setLineDashPattern([4, 4], 0);
+        tail.circles.forEach(c => pdf.circle(c.x, c.y, c.r, 'FD'));
+    }
+    pdf.setLineDashPattern([], 0);
+};
+
+const drawBubble = (pdf: jsPDF, layout: BubbleLayout, fonts: PdfFontMap) => {
+    const { style, rect, lines, element } = layout;
+    const inset = style.borderWidth / 2;
+    const x = rect.x + inset;
+    const y = rect.y + inset;
+    const width = rect.width - style.borderWidth;
+    const height = rect.height - style.borderWidth;
+
+    pdf.setFillColor(style.background);
+    pdf.setDrawColor(BUBBLE_BORDER_COLOR);
+    pdf.setLineWidth(style.borderWidth);
+    switch (element.type) {
+        case 'dialogue':
+            pdf.roundedRect(x, y, width, height, 12, 12, 'FD');
+            break;
+        case 'thoughts':
+            // border-radius: 50% / 40%
+            pdf.setLineDashPattern([6, 4], 0);
+            pdf.roundedRect(x, y, width, height, width / 2, height * 0.4, 'FD');
+            pdf.setLineDashPattern([], 0);
+            break;
+        case 'narrative':
+            pdf.rect(x, y, width, height, 'FD');
+            break;
+    }
+
+    const font = fonts[element.type];
+    pdf.setFont(font.fontName, font.fontStyle);
+    // Font sizes are in points, page coordinates are in the editor's pixel space
+    pdf.setFontSize(style.fontSize * pdf.internal.scaleFactor);
+    pdf.setCharSpace(style.letterSpacing);
+    pdf.setTextColor(BUBBLE_TEXT_COLOR);
+
+    const lineHeight = style.fontSize * style.lineHeight;
+    const textX = rect.x + style.borderWidth + style.paddingX;
+    const textY = rect.y + style.borderWidth + style.paddingY;
+    lines.forEach((line, i) => {
+        pdf.text(line, textX, textY + lineHeight * i + lineHeight / 2, { baseline: 'middle' });
+    });
+    pdf.setCharSpace(0);
+};
+
+/**
+ * Renders the comic to a PDF with the artwork as an image and all lettering drawn as
+ * vector shapes with real, selectable text. Uses the same bubble and tail geometry as the editor.
+ */
+export const createVectorPdf = async (pages: ComicPage[]): Promise<jsPDF> => {
+    // Each PDF page takes the dimensions of its comic page
+    const firstSize = pages[0]?.size ?? DEFAULT_PAGE_SIZE;
+    const pdf = new jsPDF({
+        orientation: orientationFor(firstSize),
+        unit: 'px',
+        format: [firstSize.width, firstSize.height],
+    });
+    const fonts = await embedLetteringFonts(pdf);
+
+    for (let i = 0; i < pages.length; i++) {
+        const page = pages[i];
+        if (i > 0) pdf.addPage([page.size.width, page.size.height], orientationFor(page.size));
+
+        await drawPageArt(pdf, page.imageUrl, page.size);
+
+        const layouts = await layoutPageBubbles(page.textElements);
+        // Tails sit underneath the bubbles, like the SVG layer in the editor
+        layouts.forEach(layout => drawTail(pdf, layout));
+        layouts.forEach(layout => drawBubble(pdf, layout, fonts));
+    }
+
+    return pdf;
+};
@@ -0,0 +1,124 @@
+import type { CharacterProfile, ComicProject, ProjectBundle, ReferenceImage } from '../types';
+import { downloadBlob } from '../utils/download';
+import { DEFAULT_ART_STYLE, isArtStyleId } from '../utils/artStyles';
+import { isPageSize } from '../utils/pageSizes';
+
+const PROJECT_FORMAT = 'manga-weaver-project';
+export const PROJECT_FILE_VERSION = 4;
+
+// Each entry upgrades a raw bundle from version `n` to `n + 1`.
+// When the bundle shape changes, bump PROJECT_FILE_VERSION and add a step here.
+const migrations: Record<number, (bundle: any) => any> = {
+    // v2: anonymous reference images became a named cast. Each old image becomes its own character.
+    1: bundle => {
+        const { referenceImages, ...project } = bundle.project ?? {};
+        const characters: CharacterProfile[] = (Array.isArray(referenceImages) ? referenceImages : []).map((image: ReferenceImage, i: number) => ({
+            id: `character-${i + 1}`,
+            name: `Character ${i + 1}`,
+            description: '',
+            referenceImages: [image],
+        }));
+        return { ...bundle, project: { ...project, characters } };
+    },
+    // v3: the art style became a project setting. Older comics were regenerated in full color.
+    2: bundle => ({ ...bundle, project: { ...bundle.project, artStyle: DEFAULT_ART_STYLE } }),
+    // v4: pages carry their own dimensions. Everything before was a 1024px square.
+    3: bundle => ({
+        ...bundle,
+        project: {
+            ...bundle.project,
+            pages: Array.isArray(bundle.project?.pages)
+                ? bundle.project.pages.map((page: any) => ({ ...page, size: { width: 1024, height: 1024 } }))
+                : bundle.project?.pages,
+        },
+    }),
+};
+
+const migrateBundle = (raw: any): ProjectBundle => {
+    let bundle = raw;
+    let version = typeof bundle.version === 'number' ? bundle.version : 1;
+
+    if (version > PROJECT_FILE_VERSION) {
+        throw new Error(`This project was saved by a newer version of Manga Weaver AI (v${version}). Please update the app to open it.`);
+    }
+
+    while (version < PROJECT_FILE_VERSION) {
+        const migrate = migrations[version];
+        if (!migrate) {
+            throw new Error(`Unable to upgrade project file from version ${version}.`);
+        }
+        console.log(`🔧 [Project] Migrating project bundle from v${version} to v${version + 1}`);
+        bundle = migrate(bundle);
+        version++;
+        bundle.version = version;
+    }
+
+    return bundle as ProjectBundle;
+};
+
+const validateProject = (project: any): ComicProject => {
+    if (!project || !Array.isArray(project.pages) || project.pages.length === 0) {
+        throw new Error('The project file does not contain any comic pages.');
+    }
+
+    project.pages.forEach((page: any, index: number) => {
+        if (typeof page.id !== 'string' || typeof page.imageUrl !== 'string' || !Array.isArray(page.textElements) || !page.storyPrompt || !isPageSize(page.size)) {
+            throw new Error(`Page ${index + 1} in the project file is incomplete.`);
+        }
+    });
+
+    return {
+        prompt: typeof project.prompt === 'string' ? project.prompt : '',
+        characters: Array.isArray(project.characters) ? project.characters : [],
+        artStyle: isArtStyleId(project.artStyle) ? project.artStyle : DEFAULT_ART_STYLE,
+        pages: project.pages,
+        annotationStates: project.annotationStates && typeof project.annotationStates === 'object' ? project.annotationStates : {},
+    };
+};
+
+export const createProjectBundle = (project: ComicProject): ProjectBundle => ({
+    format: PROJECT_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    project,
+});
+
+export const restoreProjectBundle = (raw: any): ComicProject => {
+    if (!raw || raw.format !== PROJECT_FORMAT) {
+        throw new Error('The selected file is not a valid Manga Weaver project.');
+    }
+
+    const bundle = migrateBundle(raw);
+    return validateProject(bundle.project);
+};
+
+export const parseProjectBundle = (json: string): ComicProject => {
+    let raw: any;
+    try {
+        raw = JSON.parse(json);
+    } catch (e) {
+        console.error('🚫 [Error] Failed to parse project file JSON:', e);
+        throw new Error('The selected file is not a valid Manga Weaver project.');
+    }
+
+    return restoreProjectBundle(raw);
+};
+
+export const downloadProjectFile = (project: ComicProject) => {
+    const bundle = createProjectBundle(project);
+    const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+    downloadBlob(blob, `manga-project-${Date.now()}.json`);
+};
+
+export const readProjectFile = async (file: File): Promise<ComicProject> => {
+    const json = await file.text();
+    return parseProjectBundle(json);
+};
+
+export const filesToReferenceImages = (files: File[]): Promise<ReferenceImage[]> =>
+    Promise.all(files.map(file => new Promise<ReferenceImage>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve({ name: file.name, dataUrl: reader.result as string });
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    })));
@@ -1,17 +1,27 @@
+import type { ArtStyleId, CharacterProfile, PageSize, StoryPagePrompt } from '../types';
+import { getArtStyle } from '../utils/artStyles';
+import { getPageOrientation } from '../utils/pageSizes';
+import { PANEL_LAYOUTS } from '../utils/panelLayouts';
 
-export const createStoryOutlineSystemInstruction = (): string => `You are a master storyteller and manga scriptwriter. Your task is to break down a user's story idea into a page-by-page script for a manga. Each page must be divided into 2 to 3 distinct PANELS (or micro-scenes).
+export const createStoryOutlineSystemInstruction = (artStyle: ArtStyleId, pageSize: PageSize): string => `You are a master storyteller and manga scriptwriter. Your task is to break down a user's story idea into a page-by-page script for a manga. Each page is divided into 1 to 4 distinct PANELS (or micro-scenes) arranged in one of the PAGE LAYOUTS below.
 
 **CRITICAL CANVAS AND TEXT CONSTRAINTS:**
-- Final comic pages are EXACTLY 1024px x 1024px
+- Final comic pages are EXACTLY ${pageSize.width}px x ${pageSize.height}px (${getPageOrientation(pageSize)})
 - Each text element (dialogue, thoughts, narrative) occupies 250px x 100px of space
-- With the supported panel layouts (1x2 grid, 2x1 grid, and 1x3 grid) each panel has limited space for text elements
+- Each panel has limited space for text elements, and the smaller panels of the 2x2 grid and 4-koma layouts have the least
 - MAXIMUM text elements per panel: 2
 - Consider that characters, backgrounds, and visual elements also need space
 - Text elements must not overlap with each other or important visual elements
 
 For each panel, you must provide:
 1.  A 'visual_description': A vivid description focusing only on character actions, expressions, setting, and camera angles for that specific panel. This part should NEVER contain any dialogue or text.
-2.  A list of 'text_elements': This should contain all dialogue, character thoughts, or narrative text boxes for that panel. For 'dialogue' and 'thoughts', you MUST also provide a 'character_identifier'. This should be a concise visual description of the character speaking or thinking (e.g., 'the tall knight in silver armor', 'the small cat with a red collar'), NOT just their name. This is crucial for the artist AI to correctly attribute the text. Narrative text does not need a character identifier.
+2.  A list of 'text_elements': This should contain all dialogue, character thoughts, or narrative text boxes for that panel. For 'dialogue' and 'thoughts', you MUST also provide a 'character_identifier'. If the speaker is a member of the provided CAST, use their exact cast name. Otherwise use a concise visual description of the character speaking or thinking (e.g., 'the tall knight in silver armor', 'the small cat with a red collar'). This is crucial for the artist AI to correctly attribute the text. Narrative text does not need a character identifier.
+3.  A list of 'characters': The exact cast names of every CAST member visible in the panel. Leave it empty if no cast member appears.
+
+For each page, you must also choose a 'layout' from the PAGE LAYOUTS list. The page MUST have exactly as many panels as its layout. Pick layouts that suit the pacing: a splash page for a big reveal, an inset for a reaction shot, 4-koma for a comedic beat.
+
+**PAGE LAYOUTS:**
+${PANEL_LAYOUTS.map(layout => `- '${layout.id}' (${layout.panelCount} panel${layout.panelCount === 1 ? '' : 's'}): ${layout.prompt}`).join('\n')}
 
 **TEXT ELEMENT CONSTRAINTS:**
 - MAXIMUM 1-2 text elements per panel
@@ -21,12 +31,13 @@ For each panel, you must provide:
 
 CRITICAL RULE: Within a single panel, only ONE character may speak or have thoughts. This is to ensure a clear, readable flow. Do not assign dialogue from multiple characters to the same panel.
 
-STYLE CONSISTENCY: Specify that ALL pages should use the same visual style - either full color manga style OR black and white manga style, but be consistent throughout the entire comic.`;
+ART STYLE: The whole comic is drawn as ${getArtStyle(artStyle).prompt} Write visual descriptions that suit this style and do not ask for a different style or color scheme on any page.`;
 
-export const createStoryOutlineUserPrompt = (prompt: string, numPages: number, characterPrompt: string): string => `
+export const createStoryOutlineUserPrompt = (prompt: string, numPages: number, characterPrompt: string, storyContext = ''): string => `
     Story Idea: "${prompt}"
     Number of Pages: ${numPages}
     ${characterPrompt}
+    ${storyContext}
 
     Generate a JSON object that contains a list of page-by-page scripts, with each page broken down into panels.
     
@@ -37,9 +48,48 @@ export const createStoryOutlineUserPrompt = (prompt: string, numPages: number, c
     - Focus on the most essential dialogue/thoughts per panel
 `;
 
-export const createVerifyImageSystemInstruction = (): string => `You are an AI assistant specialized in visual verification. Your task is to analyze a comic page image and determine if it accurately depicts the provided panel-by-panel script and any character references. Provide a direct, boolean answer and a brief justification. Be strict in your assessment. The image must not contain any text, dialogue, or speech bubbles.`;
+// A page's script as plain text, for prompts that need to know what happens on existing pages
+const describeScriptPage = (page: StoryPagePrompt): string =>
+    `Page ${page.page_number}:\n${page.panels.map(panel => {
+        const lines = panel.text_elements.map(el => `    - ${el.type}${el.character_identifier ? ` (${el.character_identifier})` : ''}: "${el.text}"`);
+        return [`  - Panel ${panel.panel_number}: ${panel.visual_description}`, ...lines].join('\n');
+    }).join('\n')}`;
+
+export const createInsertPageContextPrompt = (previous?: StoryPagePrompt, next?: StoryPagePrompt): string => `
+    **STORY CONTEXT:** This is ONE new page to insert into an existing comic. Write only this page, following the story idea above. It must read naturally ${previous && next ? 'between the two pages below' : previous ? 'after the page below, which comes right before it' : next ? 'before the page below, which comes right after it' : 'as a standalone page'}. Keep the same characters, setting and tone, and do not repeat what those pages already show.
+    ${previous ? `\n    Page before the new one:\n${describeScriptPage(previous)}` : ''}
+    ${next ? `\n    Page after the new one:\n${describeScriptPage(next)}` : ''}
+`;
+
+export const createStorySummaryPrompt = (storyIdea: string, pages: StoryPagePrompt[]): string => `Summarize what has happened so far in this comic, based on its page-by-page script below. Write one short paragraph that covers the main characters, the key events in order, any open plot threads, and exactly where the last page leaves off. Do not invent anything that is not in the script.
+
+Original story idea: "${storyIdea}"
+
+${pages.map(describeScriptPage).join('\n\n')}`;
+
+export const createContinueStoryContextPrompt = (pages: StoryPagePrompt[], summary: string, direction: string): string => `
+    **STORY SO FAR:** The comic already has ${pages.length} page${pages.length === 1 ? '' : 's'}. Write the NEXT pages, numbered from ${pages.length + 1}, so they pick up exactly where the last page leaves off. Keep the same characters, their appearance, the setting and the tone. Do not retell or repeat scenes that were already shown.
+    ${direction ? `\n    What should happen next: ${direction}\n` : ''}
+    Summary of the story so far: ${summary}
+
+    Existing pages:
+${pages.map(describeScriptPage).join('\n')}
+`;
+
+export const createCastPrompt = (characters: CharacterProfile[]): string => `
+    **CAST:** The user has defined these characters. Refer to them ONLY by these exact names, keep their appearance consistent with the descriptions${characters.some(c => c.referenceImages.length > 0) ? ' and reference images' : ''}, and do not rename them:
+    ${characters.map(c => `- "${c.name}"${c.description ? `: ${c.description}` : ''}`).join('\n    ')}
+`;
+
+// Lists the cast members drawn on a single page so the artist can match them to their labelled reference images
+export const createPageCastPrompt = (characters: CharacterProfile[]): string =>
+    characters.length > 0
+        ? `Characters on this page (each reference image below is labelled with the character's name):\n${characters.map(c => `- ${c.name}${c.description ? `: ${c.description}` : ''}`).join('\n')}`
+        : '';
 
-export const createVerifyImageUserPrompt = (panelDescriptions: string, panelsLength: number, characterConsistencyPrompt: string, characterReferenceInfo: string): string => `
+export const createVerifyImageSystemInstruction = (): string => `You are an AI assistant specialized in visual verification. Your task is to analyze a comic page image and score how accurately it depicts the provided panel-by-panel script and any character references. Score each criterion separately and give a brief justification. Be strict in your assessment. The image must not contain any text, dialogue, or speech bubbles.`;
+
+export const createVerifyImageUserPrompt = (panelDescriptions: string, panelsLength: number, layoutDescription: string, characterConsistencyPrompt: string, characterReferenceInfo: string, artStyle: ArtStyleId): string => `
     Please verify if the provided generated comic page image accurately matches the following script ${characterReferenceInfo}.
 
     **Script:**
@@ -47,23 +97,24 @@ export const createVerifyImageUserPrompt = (panelDescriptions: string, panelsLen
 
     **Verification Criteria:**
     1.  **Content Match:** Do the characters, actions, and settings in each panel of the image match the script's visual descriptions?
-    2.  **Panel Count:** Does the image have the correct number of panels (${panelsLength})?
+    2.  **Panel Layout:** Does the image have exactly ${panelsLength} panel${panelsLength === 1 ? '' : 's'}, arranged as ${layoutDescription}?
     3.  **No Text:** Is the image completely free of any text, speech bubbles, or narrative boxes?
+    4.  **Art Style:** Is the page drawn in this style: ${getArtStyle(artStyle).prompt}
     ${characterConsistencyPrompt}
 
-    Based on these criteria, does the image satisfy the requirements?
+    Score each criterion from 0 (completely wrong) to 10 (perfect). Only give 10 when there is nothing to fix.
 `;
 
 
-export const createGenerateImageSystemInstruction = (): string => `You are an expert manga artist AI. Your task is to generate a single composite manga page containing multiple panels based on the provided script.
-- The output image MUST BE a 1024x1024 square.
-- Arrange the panels in one of the following layouts: 1x2 grid, 2x1 grid, 1x3 grid
+export const createGenerateImageSystemInstruction = (artStyle: ArtStyleId, pageSize: PageSize): string => `You are an expert manga artist AI. Your task is to generate a single composite manga page containing multiple panels based on the provided script.
+- The output image MUST BE ${pageSize.width}x${pageSize.height} pixels (${getPageOrientation(pageSize)}).
+- Arrange the panels exactly as the page layout in the prompt describes.
 - Draw clear, black gutter lines between each panel to visually separate them.
 - Each panel can have maximum one image only. Do not create sub-panels within one panel.
-- The color scheme should be consistent throughout all pages
+- ART STYLE: ${getArtStyle(artStyle).prompt} Use this exact style and color scheme on every page.
 - CRITICAL: The image must NOT contain any text, speech bubbles, narrative boxes, or any form of typography. The final output must be pure artwork only. Ignore any text in the user prompt and only focus on the visual descriptions.`;
 
-export const createRegenerateFailedImageSystemInstruction = (): string => `You are an expert manga artist AI specialized in CORRECTING failed comic page generations. Your primary task is to analyze a previously generated image that failed verification and create a corrected version.
+export const createRegenerateFailedImageSystemInstruction = (artStyle: ArtStyleId, pageSize: PageSize): string => `You are an expert manga artist AI specialized in CORRECTING failed comic page generations. Your primary task is to analyze a previously generated image that failed verification and create a corrected version.
 
 **CORRECTION METHODOLOGY:**
 - Study the failed image and the verification failure reason
@@ -72,40 +123,45 @@ export const createRegenerateFailedImageSystemInstruction = (): string => `You a
 - Only PERFORM the correction in the image, DO NOT generate anything entirely new
 
 **OUTPUT REQUIREMENTS:**
-- Generate a corrected 1024x1024px comic page that addresses all issues that caused verification failure
-- Valid panel layouts: 1x2 grid, 2x1 grid, 1x3 grid
+- Generate a corrected ${pageSize.width}x${pageSize.height}px (${getPageOrientation(pageSize)}) comic page that addresses all issues that caused verification failure
+- Keep the page layout described in the prompt.
 - Each panel can have maximum one image only. Do not create sub-panels within one panel.
+- ART STYLE: ${getArtStyle(artStyle).prompt}
 
 Your success is measured by passing the automated verification system.`;
 
 
-export const createInitialImageVisualPrompt = (layoutDescription: string, panelDescriptions: string): string =>
-    `Create a comic page with ${layoutDescription}.\n${panelDescriptions}`;
+export const createInitialImageVisualPrompt = (layoutDescription: string, panelDescriptions: string, pageCastPrompt: string): string =>
+    `Create a comic page with ${layoutDescription}.\n${panelDescriptions}${pageCastPrompt ? `\n\n${pageCastPrompt}` : ''}`;
 
-export const createRetryImageVisualPrompt = (attempt: number, lastReasoning: string, panelDescriptions: string): string =>
+export const createRetryImageVisualPrompt = (attempt: number, lastReasoning: string, layoutDescription: string, panelDescriptions: string, pageCastPrompt: string): string =>
     `This is attempt #${attempt}. The previous image generation was not accurate.
 Reasoning for failure: "${lastReasoning}"
 
 Please correct the provided image based on this feedback and the original script. Ensure the new image strictly follows all instructions.
 
+**Page Layout:** ${layoutDescription}
+
 **Original Script:**
-${panelDescriptions}`;
+${panelDescriptions}${pageCastPrompt ? `\n\n${pageCastPrompt}` : ''}`;
 
 
-export const createTextPlacementPrompt = (textList: string): string => `You are analyzing a composite comic page image (1024x1024px) containing multiple panels, and placing text elements for each panel. Your task is to determine optimal coordinates for each text element.
+export const createTextPlacementPrompt = (textList: string, pageSize: PageSize, layoutDescription: string, panelBounds: string): string => `You are analyzing a composite comic page image (${pageSize.width}x${pageSize.height}px) containing multiple panels, and placing text elements for each panel. Your task is to determine optimal coordinates for each text element.
 
 **CRITICAL TEXT ELEMENT DIMENSIONS:**
 - Each text element occupies EXACTLY 250px width x 100px height
 - The x,y coordinates you provide represent the TOP-LEFT corner of this 250x100px rectangle
-- **IMPORTANT:** Your coordinates will be used EXACTLY as specified - no automatic adjustments will be made
+- **IMPORTANT:** Coordinates that leave the text element's panel will be pulled back inside the panel, which may cause overlaps - keep every rectangle inside its panel yourself
 - You must ensure the ENTIRE 250x100px area fits within panel boundaries
 - Text elements must NOT overlap with each other (maintain minimum 30px gap between any two text rectangles)
 
 CRITICAL ANALYSIS STEPS:
 
 1. **IMAGE ANALYSIS:**
-   - The image is EXACTLY 1024px x 1024px
-   - Identify the panel layout
+   - The image is EXACTLY ${pageSize.width}px wide x ${pageSize.height}px tall
+   - The page layout is ${layoutDescription}
+   - Expected panel boundaries (refine them against the gutters you actually see):
+${panelBounds}
    - Note the black gutter/border lines separating panels
    - For each panel, identify:
      * Panel boundaries (top, left, bottom, right coordinates)
@@ -156,14 +212,20 @@ CRITICAL ANALYSIS STEPS:
    - Ensure anchors point to logical character body parts
 
 RESPONSE FORMAT:
-Return JSON with 'perceived_dimensions' and 'placements' array. Include panel analysis in your reasoning.
+Return JSON with 'perceived_dimensions' and 'placements' array. Include panel analysis in your reasoning. List the faces, hands and important objects you identified in 'avoid_regions' as page-pixel rectangles, so the lettering can be kept off them.
 
 Text elements to place:
 ${textList}`;
 
 
-export const createRegenerateAnnotatedPagePrompt = (): string => `Incorporate the changes described by the annotations (drawings, arrows, shapes, etc.) on this image. Maintain the consistent FULL COLOR manga/anime style. The output image MUST BE a 1024x1024 square.
+export const createRegenerateAnnotatedPagePrompt = (artStyle: ArtStyleId, pageSize: PageSize): string => `Incorporate the changes described by the annotations (drawings, arrows, shapes, etc.) on this image. Keep the comic's art style: ${getArtStyle(artStyle).prompt} The output image MUST BE ${pageSize.width}x${pageSize.height} pixels (${getPageOrientation(pageSize)}).
 
 IMPORTANT: The output should be the image ONLY. Do not add any text, dialogue, or narrative boxes. The final image should be clean of any text. Maintain the same color style as the rest of the comic. The image may contain multiple panels; preserve the panel layout and gutter lines.
 
 Crucially, remove the annotation drawings, text, and shapes from the final image output, leaving only the modified comic art.`;
+
+export const createRegeneratePanelPrompt = (artStyle: ArtStyleId, panelSize: PageSize): string => `This image is a single panel cut out of a comic page. Redraw this panel only, following the instructions below and any annotations (drawings, arrows, shapes, etc.) on it. Keep the comic's art style: ${getArtStyle(artStyle).prompt} The output image MUST keep the panel's proportions of ${Math.round(panelSize.width)}x${Math.round(panelSize.height)} pixels.
+
+IMPORTANT: The output should be the panel art ONLY, filling the whole image. Do not add gutters, borders to other panels, text, dialogue, or narrative boxes. Keep the framing, colors, lighting and anything that touches the edges of the image close to the original, so the panel blends back into the page.
+
+Crucially, remove the annotation drawings, text, and shapes from the final image output, leaving only the modified comic art.`;
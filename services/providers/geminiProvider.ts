@@ -0,0 +1,73 @@
+import { GoogleGenAI, Modality, Type, GenerateContentResponse, type Schema } from "@google/genai";
+import type { GeneratedImage, JsonSchema, ModelProvider } from './modelProvider';
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+    object: Type.OBJECT,
+    array: Type.ARRAY,
+    string: Type.STRING,
+    integer: Type.INTEGER,
+    number: Type.NUMBER,
+    boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: SCHEMA_TYPES[schema.type],
+    ...(schema.description && { description: schema.description }),
+    ...(schema.enum && { enum: schema.enum }),
+    ...(schema.nullable && { nullable: schema.nullable }),
+    ...(schema.required && { required: schema.required }),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.properties && {
+        properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+    }),
+});
+
+export const createGeminiProvider = (apiKey: string | undefined): ModelProvider => {
+    if (!apiKey) {
+        throw new Error("API_KEY environment variable not set");
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+
+        async generateJson({ systemInstruction, parts, responseSchema, signal }) {
+            const response = await ai.models.generateContent({
+                model: TEXT_MODEL,
+                contents: { parts },
+                config: {
+                    ...(systemInstruction && { systemInstruction }),
+                    responseMimeType: "application/json",
+                    responseSchema: toGeminiSchema(responseSchema),
+                    abortSignal: signal,
+                },
+            });
+            return response.text ?? '';
+        },
+
+        async generateImage({ systemInstruction, parts, signal }): Promise<GeneratedImage | null> {
+            const response: GenerateContentResponse = await ai.models.generateContent({
+                model: IMAGE_MODEL,
+                contents: { parts },
+                config: {
+                    ...(systemInstruction && { systemInstruction }),
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                },
+            });
+
+            for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+                if (part.inlineData?.data) {
+                    return { data: part.inlineData.data, mimeType: part.inlineData.mimeType ?? 'image/png' };
+                }
+            }
+            return null;
+        },
+    };
+};
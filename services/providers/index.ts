@@ -0,0 +1,65 @@
+import type { ModelProvider } from './modelProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalProvider } from './localProvider';
+import { createRecordingProvider, createReplayProvider, loadAiCallFixture, type RecordingProvider } from './recordReplay';
+import { downloadBlob } from '../../utils/download';
+
+export * from './modelProvider';
+export { createGeminiProvider } from './geminiProvider';
+export { createLocalProvider } from './localProvider';
+export * from './recordReplay';
+
+const DEFAULT_FIXTURE_URL = '/fixtures/ai-calls.json';
+
+let activeProvider: ModelProvider | null = null;
+let recorder: RecordingProvider | null = null;
+
+const createBaseProvider = (): ModelProvider => {
+    switch (process.env.MODEL_PROVIDER) {
+        case 'local':
+            return createLocalProvider();
+        case 'gemini':
+        case undefined:
+        case '':
+            return createGeminiProvider(process.env.API_KEY);
+        default:
+            throw new Error(`Unknown MODEL_PROVIDER "${process.env.MODEL_PROVIDER}". Use "gemini" or "local".`);
+    }
+};
+
+const createDefaultProvider = (): ModelProvider => {
+    switch (process.env.AI_CALL_MODE) {
+        case 'replay':
+            return createReplayProvider(() => loadAiCallFixture(process.env.AI_FIXTURE_URL || DEFAULT_FIXTURE_URL));
+        case 'record':
+            recorder = createRecordingProvider(createBaseProvider());
+            return recorder;
+        default:
+            return createBaseProvider();
+    }
+};
+
+// The default provider is created on first use so a missing API key only fails when a model is actually called
+export const getModelProvider = (): ModelProvider => {
+    if (!activeProvider) {
+        activeProvider = createDefaultProvider();
+        console.log(`🔌 [Provider] Using "${activeProvider.name}" model provider`);
+    }
+    return activeProvider;
+};
+
+// Swap in another implementation, e.g. a fake in tests. Pass null to go back to the default.
+export const setModelProvider = (provider: ModelProvider | null) => {
+    activeProvider = provider;
+    recorder = null;
+};
+
+export const isRecordingAiCalls = () => process.env.AI_CALL_MODE === 'record';
+
+export const downloadAiCallFixture = () => {
+    if (!recorder) {
+        throw new Error('No AI calls have been recorded yet.');
+    }
+    const fixture = recorder.getFixture();
+    downloadBlob(new Blob([JSON.stringify(fixture)], { type: 'application/json' }), `ai-calls-${Date.now()}.json`);
+};
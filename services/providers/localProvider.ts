@@ -0,0 +1,145 @@
+import type { ContentPart, GeneratedImage, ImageGenerationRequest, JsonGenerationRequest, ModelProvider } from './modelProvider';
+import { PANEL_LAYOUTS, getDefaultLayoutForPanelCount, getLayoutPanelRects } from '../../utils/panelLayouts';
+
+// Offline stand-in for the real models. Returns deterministic, schema-valid responses
+// derived from the prompts so the whole pipeline can run without a network or API key.
+
+const DEFAULT_PAGE_SIZE = 1024;
+const GUTTER = 16;
+
+const promptText = (parts: ContentPart[]) =>
+    parts.map(part => ('text' in part ? part.text : '')).join('\n');
+
+// The prompts state the page size as "WIDTHxHEIGHT pixels" or "WIDTHpx wide x HEIGHTpx tall"
+const readPageSize = (prompt: string) => {
+    const match = prompt.match(/(\d+)x(\d+) pixels/) ?? prompt.match(/(\d+)px wide x (\d+)px tall/);
+    return match
+        ? { width: Number(match[1]), height: Number(match[2]) }
+        : { width: DEFAULT_PAGE_SIZE, height: DEFAULT_PAGE_SIZE };
+};
+
+const createOutline = (prompt: string) => {
+    const numPages = Number(prompt.match(/Number of Pages:\s*(\d+)/)?.[1] ?? 1);
+    const idea = prompt.match(/Story Idea:\s*"([\s\S]*?)"\n/)?.[1]?.trim() || 'A quiet day';
+
+    return {
+        pages: Array.from({ length: numPages }, (_, pageIndex) => ({
+            page_number: pageIndex + 1,
+            layout: 'two-rows',
+            panels: [1, 2].map(panelNumber => ({
+                panel_number: panelNumber,
+                visual_description: `Placeholder scene ${panelNumber} of page ${pageIndex + 1}: ${idea}`,
+                text_elements: panelNumber === 1
+                    ? [{ type: 'narrative', text: `Page ${pageIndex + 1} begins.` }]
+                    : [{ type: 'dialogue', text: 'This line was written offline.', character_identifier: 'the main character' }],
+            })),
+        })),
+    };
+};
+
+// Mirrors the "Panel N Text:" / "1. TYPE: ..., TEXT: "..."" list built for the text placement prompt
+const createPlacements = (prompt: string) => {
+    const placements: any[] = [];
+    let panelNumber = 1;
+    for (const line of prompt.split('\n')) {
+        const panelMatch = line.match(/^Panel (\d+) Text:/);
+        if (panelMatch) {
+            panelNumber = Number(panelMatch[1]);
+            continue;
+        }
+        const elementMatch = line.match(/^(\d+)\. TYPE: (\w+), TEXT: "(.*?)"(?:, FOR CHARACTER|$)/);
+        if (!elementMatch) continue;
+
+        const row = placements.length;
+        const x = 40 + (row % 2) * 480;
+        const y = 40 + Math.floor(row / 2) * 180;
+        placements.push({
+            x_position: `${x}px`,
+            y_position: `${y}px`,
+            element_type: elementMatch[2],
+            text: elementMatch[3],
+            panel_number: panelNumber,
+            line_number: Number(elementMatch[1]),
+            placement_reasoning: 'Local provider grid placement.',
+            anchor_position: elementMatch[2] === 'narrative' ? null : { x: `${x + 125}px`, y: `${y + 160}px` },
+        });
+    }
+
+    return {
+        perceived_dimensions: readPageSize(prompt),
+        panel_analysis: { layout_type: 'local', panel_count: 0, panel_boundaries: [] },
+        placements,
+    };
+};
+
+const drawPlaceholderPage = (prompt: string): GeneratedImage => {
+    const panelCount = Math.max(1, new Set(prompt.match(/^Panel \d+:/gm) ?? []).size);
+    // The image prompt quotes the layout's description, so the placeholder can follow the same layout
+    const layout = PANEL_LAYOUTS.find(l => prompt.includes(l.prompt)) ?? getDefaultLayoutForPanelCount(panelCount);
+    const { width, height } = readPageSize(prompt);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+    ctx.fillStyle = '#111111';
+    ctx.fillRect(0, 0, width, height);
+
+    getLayoutPanelRects(layout, { width, height }).forEach((rect, i) => {
+        // Half a gutter on each side of a shared edge, a full gutter at the page edge
+        const x = rect.x + (rect.x === 0 ? GUTTER : GUTTER / 2);
+        const y = rect.y + (rect.y === 0 ? GUTTER : GUTTER / 2);
+        const right = rect.x + rect.width - (rect.x + rect.width >= width ? GUTTER : GUTTER / 2);
+        const bottom = rect.y + rect.height - (rect.y + rect.height >= height ? GUTTER : GUTTER / 2);
+        // Inset panels overlap earlier ones, so each panel gets its own black border first
+        ctx.fillStyle = '#111111';
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.fillStyle = i % 2 === 0 ? '#e5e7eb' : '#d1d5db';
+        ctx.fillRect(x, y, right - x, bottom - y);
+        ctx.fillStyle = '#6b7280';
+        ctx.font = 'bold 48px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`Panel ${i + 1}`, (x + right) / 2, (y + bottom) / 2);
+    });
+
+    const dataUrl = canvas.toDataURL('image/png');
+    return { data: dataUrl.split(',')[1], mimeType: 'image/png' };
+};
+
+export const createLocalProvider = (): ModelProvider => ({
+    name: 'local',
+
+    async generateJson({ task, parts, signal }: JsonGenerationRequest) {
+        signal?.throwIfAborted();
+        const prompt = promptText(parts);
+        switch (task) {
+            case 'story-outline':
+                return JSON.stringify(createOutline(prompt));
+            case 'story-summary':
+                return JSON.stringify({
+                    summary: `Summary written offline of ${(prompt.match(/^Page \d+:/gm) ?? []).length} existing page(s).`,
+                });
+            case 'verify-image':
+                return JSON.stringify({
+                    scores: { content_match: 10, panel_layout: 10, no_text: 10, art_style: 10, character_consistency: 10 },
+                    reasoning: 'Local provider accepts every image.',
+                });
+            case 'text-placement':
+                return JSON.stringify(createPlacements(prompt));
+            default:
+                throw new Error(`Local provider cannot produce JSON for task "${task}".`);
+        }
+    },
+
+    async generateImage({ task, systemInstruction, parts, signal }: ImageGenerationRequest) {
+        signal?.throwIfAborted();
+        if (task === 'regenerate-page' || task === 'regenerate-panel') {
+            // Hand back the page or panel that was sent in, unchanged
+            const image = parts.find(part => 'inlineData' in part);
+            return image && 'inlineData' in image ? { ...image.inlineData } : null;
+        }
+        return drawPlaceholderPage(`${systemInstruction ?? ''}\n${promptText(parts)}`);
+    },
+});
@@ -0,0 +1,64 @@
+// Provider-neutral description of the model calls the comic pipeline makes.
+// Gemini is one implementation; tests and offline runs can plug in their own.
+
+export type ContentPart =
+    | { text: string }
+    | { inlineData: { data: string; mimeType: string } };
+
+// Subset of JSON Schema understood by every provider for structured output
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+    description?: string;
+    enum?: string[];
+    nullable?: boolean;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+}
+
+// Which pipeline step a call belongs to. Providers may use it for routing, logging or fixtures.
+export type ModelTask =
+    | 'story-outline'
+    | 'story-summary'
+    | 'verify-image'
+    | 'text-placement'
+    | 'generate-image'
+    | 'regenerate-page'
+    | 'regenerate-panel';
+
+export interface JsonGenerationRequest {
+    task: ModelTask;
+    systemInstruction?: string;
+    parts: ContentPart[];
+    responseSchema: JsonSchema;
+    signal?: AbortSignal;
+}
+
+export interface ImageGenerationRequest {
+    task: ModelTask;
+    systemInstruction?: string;
+    parts: ContentPart[]; // Prompt text plus any input images (references, image to edit)
+    signal?: AbortSignal;
+}
+
+export interface GeneratedImage {
+    data: string; // base64, without the data URL prefix
+    mimeType: string;
+}
+
+export interface ModelProvider {
+    readonly name: string;
+    /** Returns the raw JSON text produced for the given schema. */
+    generateJson(request: JsonGenerationRequest): Promise<string>;
+    /** Returns the generated or edited image, or null if the model produced none. */
+    generateImage(request: ImageGenerationRequest): Promise<GeneratedImage | null>;
+}
+
+export const imageUrlToPart = (imageUrl: string): ContentPart => {
+    const mimeType = imageUrl.substring(imageUrl.indexOf(':') + 1, imageUrl.indexOf(';'));
+    const data = imageUrl.split(',')[1];
+    return { inlineData: { data, mimeType } };
+};
+
+export const generatedImageToUrl = (image: GeneratedImage): string =>
+    `data:${image.mimeType};base64,${image.data}`;
@@ -0,0 +1,134 @@
+import type { GeneratedImage, ImageGenerationRequest, JsonGenerationRequest, ModelProvider, ModelTask } from './modelProvider';
+
+// Record-and-replay of model calls. Recording wraps a real provider and keeps every
+// request/response pair; replaying serves those responses by request hash, so a full
+// pipeline run can be reproduced without an API key or network.
+
+export const AI_FIXTURE_FORMAT = 'manga-weaver-ai-fixture';
+export const AI_FIXTURE_VERSION = 1;
+
+type CallKind = 'json' | 'image';
+
+export interface AiCallFixtureEntry {
+    hash: string;
+    kind: CallKind;
+    task: ModelTask;
+    response: string | GeneratedImage | null;
+}
+
+export interface AiCallFixture {
+    format: typeof AI_FIXTURE_FORMAT;
+    version: number;
+    recordedAt: string;
+    entries: AiCallFixtureEntry[];
+}
+
+export interface RecordingProvider extends ModelProvider {
+    getFixture(): AiCallFixture;
+}
+
+// Field order is fixed so the same request always hashes the same way
+export const hashRequest = async (kind: CallKind, request: JsonGenerationRequest | ImageGenerationRequest): Promise<string> => {
+    const canonical = JSON.stringify({
+        kind,
+        task: request.task,
+        systemInstruction: request.systemInstruction ?? null,
+        parts: request.parts,
+        responseSchema: 'responseSchema' in request ? request.responseSchema : null,
+    });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createRecordingProvider = (inner: ModelProvider): RecordingProvider => {
+    const entries: AiCallFixtureEntry[] = [];
+
+    const record = async <T extends string | GeneratedImage | null>(
+        kind: CallKind,
+        request: JsonGenerationRequest | ImageGenerationRequest,
+        call: () => Promise<T>,
+    ): Promise<T> => {
+        const [hash, response] = await Promise.all([hashRequest(kind, request), call()]);
+        entries.push({ hash, kind, task: request.task, response });
+        console.log(`📼 [Record] ${request.task} (${hash.substring(0, 12)}) — ${entries.length} call(s) recorded`);
+        return response;
+    };
+
+    return {
+        name: `record(${inner.name})`,
+        generateJson: request => record('json', request, () => inner.generateJson(request)),
+        generateImage: request => record('image', request, () => inner.generateImage(request)),
+        getFixture: () => ({
+            format: AI_FIXTURE_FORMAT,
+            version: AI_FIXTURE_VERSION,
+            recordedAt: new Date().toISOString(),
+            entries: [...entries],
+        }),
+    };
+};
+
+export const parseAiCallFixture = (json: string): AiCallFixture => {
+    let raw: any;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        throw new Error('This file is not a valid AI call fixture.');
+    }
+    if (raw?.format !== AI_FIXTURE_FORMAT || !Array.isArray(raw.entries)) {
+        throw new Error('This file is not a valid AI call fixture.');
+    }
+    if (raw.version > AI_FIXTURE_VERSION) {
+        throw new Error(`This fixture was recorded with a newer version of the app (v${raw.version}).`);
+    }
+    return raw as AiCallFixture;
+};
+
+/**
+ * Serves recorded responses by request hash. Identical requests recorded more than once
+ * are answered in recording order, repeating the last response once they run out.
+ */
+export const createReplayProvider = (source: AiCallFixture | (() => Promise<AiCallFixture>)): ModelProvider => {
+    let responsesPromise: Promise<Map<string, AiCallFixtureEntry[]>> | null = null;
+    const servedCounts = new Map<string, number>();
+
+    const getResponses = () => {
+        if (!responsesPromise) {
+            responsesPromise = (typeof source === 'function' ? source() : Promise.resolve(source)).then(fixture => {
+                const byHash = new Map<string, AiCallFixtureEntry[]>();
+                fixture.entries.forEach(entry => {
+                    byHash.set(entry.hash, [...(byHash.get(entry.hash) ?? []), entry]);
+                });
+                console.log(`📼 [Replay] Loaded fixture with ${fixture.entries.length} recorded call(s)`);
+                return byHash;
+            });
+        }
+        return responsesPromise;
+    };
+
+    const replay = async (kind: CallKind, request: JsonGenerationRequest | ImageGenerationRequest) => {
+        request.signal?.throwIfAborted();
+        const [responses, hash] = await Promise.all([getResponses(), hashRequest(kind, request)]);
+        const recorded = responses.get(hash);
+        if (!recorded) {
+            throw new Error(`No recorded response for ${request.task} request ${hash.substring(0, 12)}. Record the fixture again after changing prompts or inputs.`);
+        }
+        const served = servedCounts.get(hash) ?? 0;
+        servedCounts.set(hash, served + 1);
+        console.log(`📼 [Replay] ${request.task} (${hash.substring(0, 12)})`);
+        return recorded[Math.min(served, recorded.length - 1)].response;
+    };
+
+    return {
+        name: 'replay',
+        generateJson: async request => (await replay('json', request)) as string,
+        generateImage: async request => (await replay('image', request)) as GeneratedImage | null,
+    };
+};
+
+export const loadAiCallFixture = async (url: string): Promise<AiCallFixture> => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not load the AI call fixture from ${url} (HTTP ${response.status}).`);
+    }
+    return parseAiCallFixture(await response.text());
+};
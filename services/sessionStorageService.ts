@@ -0,0 +1,103 @@
+import type { ComicProject, ProjectBundle, SavedSessionSummary } from '../types';
+import { createProjectBundle, restoreProjectBundle } from './projectService';
+
+const DB_NAME = 'manga-weaver-ai';
+const DB_VERSION = 1;
+const SUMMARY_STORE = 'sessionSummaries';
+const BUNDLE_STORE = 'sessionBundles';
+const MAX_SAVED_SESSIONS = 5;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+                    db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(BUNDLE_STORE)) {
+                    db.createObjectStore(BUNDLE_STORE);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+export const listSavedSessions = async (): Promise<SavedSessionSummary[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SUMMARY_STORE, 'readonly');
+    const summaries = await requestToPromise(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<SavedSessionSummary[]>);
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = async (sessionId: string, project: ComicProject): Promise<void> => {
+    const db = await openDatabase();
+    const existing = await listSavedSessions();
+    const createdAt = existing.find(s => s.id === sessionId)?.createdAt ?? Date.now();
+
+    const summary: SavedSessionSummary = {
+        id: sessionId,
+        title: project.prompt.trim() || 'Untitled comic',
+        pageCount: project.pages.length,
+        createdAt,
+        updatedAt: Date.now(),
+    };
+
+    // Keep only the most recent sessions around; images make each bundle large.
+    const staleIds = existing
+        .filter(s => s.id !== sessionId)
+        .slice(MAX_SAVED_SESSIONS - 1)
+        .map(s => s.id);
+
+    const tx = db.transaction([SUMMARY_STORE, BUNDLE_STORE], 'readwrite');
+    tx.objectStore(SUMMARY_STORE).put(summary);
+    tx.objectStore(BUNDLE_STORE).put(createProjectBundle(project), sessionId);
+    staleIds.forEach(id => {
+        tx.objectStore(SUMMARY_STORE).delete(id);
+        tx.objectStore(BUNDLE_STORE).delete(id);
+    });
+    await transactionDone(tx);
+};
+
+export const loadSession = async (sessionId: string): Promise<ComicProject> => {
+    const db = await openDatabase();
+    const tx = db.transaction(BUNDLE_STORE, 'readonly');
+    const bundle = await requestToPromise(tx.objectStore(BUNDLE_STORE).get(sessionId) as IDBRequest<ProjectBundle | undefined>);
+    if (!bundle) {
+        throw new Error('This saved session could not be found. It may have been removed.');
+    }
+    return restoreProjectBundle(bundle);
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SUMMARY_STORE, BUNDLE_STORE], 'readwrite');
+    tx.objectStore(SUMMARY_STORE).delete(sessionId);
+    tx.objectStore(BUNDLE_STORE).delete(sessionId);
+    await transactionDone(tx);
+};
@@ -7,19 +7,67 @@ export interface TextElement {
   anchor?: { x: string; y: string }; // Optional anchor for speech bubble tails
 }
 
+// Page dimensions in editor pixels; text element coordinates use this space
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
 export interface ComicPage {
   id:string;
   imageUrl: string; // base64 data URL
+  size: PageSize;
   textElements: TextElement[];
   storyPrompt: StoryPagePrompt;
+  error?: string; // Set on placeholder pages whose generation failed; imageUrl is empty
+  variants?: PageVariant[]; // Every candidate drawn for the page, including the one in use
+  history?: PageVersion[]; // Every image the page has had, oldest first; the active one matches imageUrl
+}
+
+export interface PageVersion {
+  id: string;
+  imageUrl: string;
+  source: 'generated' | 'regenerated' | 'panel' | 'candidate';
+  createdAt?: string; // ISO timestamp; missing on the original drawing
+  annotationText?: string; // Instructions sent with an annotated regeneration
+  annotatedSnapshot?: string; // The annotated page image that was sent for regeneration
+}
+
+// One candidate drawing for a page, kept so it can be swapped in later
+export interface PageVariant {
+  id: string;
+  imageUrl: string;
+  reasoning: string; // Verification reasoning, or a note when the quality check was off
+  overallScore?: number; // Mean verification score, when the quality check ran
+}
+
+// A page being written and drawn from a short prompt before it is added to the comic
+export interface PageInsertion {
+  afterPageId: string | null; // null inserts before the first page
+  message: string;
 }
 
-export type AppStatus = 'idle' | 'loading' | 'editing';
+export type AppStatus = 'idle' | 'resume' | 'loading' | 'review' | 'editing';
+
+export type ExportFormat = 'pdf' | 'cbz' | 'epub';
+
+export type PanelLayoutId = 'splash' | 'two-rows' | 'two-columns' | 'inset' | 'three-rows' | 'l-shaped' | 'grid-2x2' | 'four-koma';
+
+export type ArtStyleId = 'shonen-screentone' | 'full-color-anime' | 'chibi' | 'webtoon';
+
+export type ReadingDirection = 'ltr' | 'rtl';
 
 export interface PageProgress {
     pageNum: number;
     message: string;
     progress: number; // 0-100 for this page specifically
+    variants?: VariantProgress[]; // Set while several candidates are drawn for the page
+}
+
+export interface VariantProgress {
+    message: string;
+    progress: number; // 0-100 for this candidate
+    reasoning?: string; // Latest verification reasoning
 }
 
 export interface ProgressUpdate {
@@ -31,6 +79,47 @@ export interface ProgressUpdate {
 
 export type ProgressCallback = (update: ProgressUpdate) => void;
 
+// What the user asked for on the home page, kept so the form can be restored after a cancel or error
+export interface GenerationRequest {
+    prompt: string;
+    characters: CharacterProfile[];
+    artStyle: ArtStyleId;
+    pageSize: PageSize;
+    numPages: number;
+    isQualityCheckEnabled: boolean;
+}
+
+export interface GenerationOptions {
+    signal?: AbortSignal;
+    onPageComplete?: (page: ComicPage) => void;
+    concurrency?: number; // Pages generated at once
+    qualityCheck?: Partial<QualityCheckSettings>;
+    // Asked to pick one of a page's candidates before its lettering is placed; resolves to the variant id.
+    // Without it the highest-scoring candidate is used.
+    onChooseVariant?: (pageNumber: number, variants: PageVariant[]) => Promise<string>;
+}
+
+export interface QualityCheckSettings {
+    passThreshold: number; // Every verification criterion must score at least this (0-10) to pass
+    maxAttempts: number; // Drawings per page before the best-scoring one is kept
+}
+
+// Each criterion is scored from 0 (completely wrong) to 10 (perfect)
+export interface VerificationScores {
+    contentMatch: number;
+    panelCount: number;
+    noText: number;
+    artStyle: number;
+    characterConsistency?: number; // Only scored when the page has cast members
+}
+
+export interface VerificationResult {
+    isMatch: boolean;
+    reasoning: string;
+    scores: VerificationScores;
+    overallScore: number; // Mean of the criterion scores, used to rank candidates
+}
+
 export type Tool = 'arrow' | 'rectangle' | 'circle' | 'text';
 
 // Base interfaces for annotations
@@ -69,6 +158,49 @@ export type ShapeObject = Arrow | Rectangle | Circle;
 
 export type AnnotationObject = ShapeObject | TextAnnotation;
 
+export interface PageAnnotationState {
+  annotations: AnnotationObject[];
+  history: AnnotationObject[][];
+  historyIndex: number;
+}
+
+// Types for saved projects
+export interface ReferenceImage {
+  name: string;
+  dataUrl: string; // base64 data URL
+}
+
+// A named member of the comic's cast. The name is the canonical identifier used in every prompt.
+export interface CharacterProfile {
+  id: string;
+  name: string;
+  description: string; // Visual description: look, clothing, distinguishing traits
+  referenceImages: ReferenceImage[];
+}
+
+export interface ComicProject {
+  prompt: string;
+  characters: CharacterProfile[];
+  artStyle: ArtStyleId; // Applied to every generation, verification and regeneration prompt
+  pages: ComicPage[];
+  annotationStates: Record<string, PageAnnotationState>; // Keyed by ComicPage id
+}
+
+export interface SavedSessionSummary {
+  id: string;
+  title: string;
+  pageCount: number;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+}
+
+export interface ProjectBundle {
+  format: 'manga-weaver-project';
+  version: number;
+  savedAt: string; // ISO timestamp
+  project: ComicProject;
+}
+
 // Types for structured story generation
 export interface TextElementData {
     type: 'dialogue' | 'narrative' | 'thoughts';
@@ -80,10 +212,13 @@ export interface ComicPanelPrompt {
     panel_number: number;
     visual_description: string;
     text_elements: TextElementData[];
+    characters?: string[]; // Cast names of the characters who appear in the panel
 }
 
 export interface StoryPagePrompt {
     page_number: number;
+    layout?: PanelLayoutId; // Falls back to the standard layout for the panel count when missing or mismatched
+    variants?: number; // Candidate drawings to generate for the page; more than one lets the user pick
     panels: ComicPanelPrompt[];
 }
 
@@ -0,0 +1,43 @@
+import type { ArtStyleId } from '../types';
+
+export interface ArtStylePreset {
+    id: ArtStyleId;
+    label: string;
+    summary: string; // Shown in the picker
+    prompt: string; // Style directive included in every image, verification and regeneration prompt
+}
+
+export const ART_STYLE_PRESETS: ArtStylePreset[] = [
+    {
+        id: 'shonen-screentone',
+        label: 'Shōnen B&W',
+        summary: 'Black and white ink with screentone shading',
+        prompt: 'Classic shōnen manga in BLACK AND WHITE only: bold clean ink lines, screentone dot shading, speed lines for motion and high-contrast solid blacks. No color at all.',
+    },
+    {
+        id: 'full-color-anime',
+        label: 'Full-Color Anime',
+        summary: 'Vibrant cel-shaded anime colors',
+        prompt: 'FULL COLOR anime style: clean line art, vibrant cel shading, soft gradients on skies and backgrounds, expressive large eyes.',
+    },
+    {
+        id: 'chibi',
+        label: 'Chibi',
+        summary: 'Cute super-deformed characters',
+        prompt: 'FULL COLOR chibi style: super-deformed characters with oversized heads (about 1:2 head-to-body ratio), rounded simple shapes, pastel colors and exaggerated cute expressions.',
+    },
+    {
+        id: 'webtoon',
+        label: 'Webtoon',
+        summary: 'Polished digital color, soft lighting',
+        prompt: 'FULL COLOR Korean webtoon style: polished digital painting, soft lighting and glow effects, smooth gradients, realistic proportions and cinematic framing.',
+    },
+];
+
+export const DEFAULT_ART_STYLE: ArtStyleId = 'full-color-anime';
+
+export const getArtStyle = (id?: ArtStyleId): ArtStylePreset =>
+    ART_STYLE_PRESETS.find(style => style.id === id) ?? ART_STYLE_PRESETS.find(style => style.id === DEFAULT_ART_STYLE)!;
+
+export const isArtStyleId = (value: unknown): value is ArtStyleId =>
+    ART_STYLE_PRESETS.some(style => style.id === value);
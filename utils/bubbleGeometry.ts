@@ -0,0 +1,144 @@
+import type { TextElement } from '../types';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface TailCircle {
+    x: number;
+    y: number;
+    r: number;
+}
+
+export type BubbleTail =
+    | { type: 'tail'; points: [Point, Point, Point] } // [anchor, base start, base end]
+    | { type: 'thought_bubble'; circles: [TailCircle, TailCircle] };
+
+const TAIL_WIDTH = 20;
+const TAIL_EDGE_INSET = 5;
+const THOUGHT_GAP = 4;
+const THOUGHT_LARGE_RADIUS = 10;
+const THOUGHT_SMALL_RADIUS = 6;
+
+// Speech tail: a triangle from the anchor to where the line towards the anchor leaves the bubble box
+const computeSpeechTail = (bubble: Rect, anchor: Point): BubbleTail | null => {
+    const bubbleCenterX = bubble.x + bubble.width / 2;
+    const bubbleCenterY = bubble.y + bubble.height / 2;
+    const dx = anchor.x - bubbleCenterX;
+    const dy = anchor.y - bubbleCenterY;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (distance < 10) return null;
+
+    const intersections: Array<Point & { t: number }> = [];
+    if (dy !== 0) {
+        const t_top = (bubble.y - bubbleCenterY) / dy;
+        if (t_top > 0) {
+            const x = bubbleCenterX + dx * t_top;
+            if (x >= bubble.x && x <= bubble.x + bubble.width) intersections.push({ x, y: bubble.y, t: t_top });
+        }
+        const t_bottom = (bubble.y + bubble.height - bubbleCenterY) / dy;
+        if (t_bottom > 0) {
+            const x = bubbleCenterX + dx * t_bottom;
+            if (x >= bubble.x && x <= bubble.x + bubble.width) intersections.push({ x, y: bubble.y + bubble.height, t: t_bottom });
+        }
+    }
+    if (dx !== 0) {
+        const t_left = (bubble.x - bubbleCenterX) / dx;
+        if (t_left > 0) {
+            const y = bubbleCenterY + dy * t_left;
+            if (y >= bubble.y && y <= bubble.y + bubble.height) intersections.push({ x: bubble.x, y, t: t_left });
+        }
+        const t_right = (bubble.x + bubble.width - bubbleCenterX) / dx;
+        if (t_right > 0) {
+            const y = bubbleCenterY + dy * t_right;
+            if (y >= bubble.y && y <= bubble.y + bubble.height) intersections.push({ x: bubble.x + bubble.width, y, t: t_right });
+        }
+    }
+
+    if (intersections.length === 0) return null;
+
+    const closest = intersections.reduce((min, curr) => curr.t < min.t ? curr : min);
+    const edgeX = closest.x;
+    const edgeY = closest.y;
+
+    let p1: Point, p2: Point;
+    if (Math.abs(edgeY - bubble.y) < 1 || Math.abs(edgeY - (bubble.y + bubble.height)) < 1) { // Top or bottom edge
+        p1 = { x: Math.max(bubble.x + TAIL_EDGE_INSET, edgeX - TAIL_WIDTH / 2), y: edgeY };
+        p2 = { x: Math.min(bubble.x + bubble.width - TAIL_EDGE_INSET, edgeX + TAIL_WIDTH / 2), y: edgeY };
+    } else { // Left or right edge
+        p1 = { x: edgeX, y: Math.max(bubble.y + TAIL_EDGE_INSET, edgeY - TAIL_WIDTH / 2) };
+        p2 = { x: edgeX, y: Math.min(bubble.y + bubble.height - TAIL_EDGE_INSET, edgeY + TAIL_WIDTH / 2) };
+    }
+
+    return { type: 'tail', points: [anchor, p1, p2] };
+};
+
+// Thought trail: two shrinking circles leading from the bubble's elliptical edge towards the anchor
+const computeThoughtTrail = (bubble: Rect, anchor: Point): BubbleTail | null => {
+    const a = bubble.width / 2;
+    const b = bubble.height * 0.4;
+    if (a <= 0 || b <= 0) return null;
+
+    const bubbleCenterX = bubble.x + bubble.width / 2;
+    const bubbleCenterY = bubble.y + bubble.height / 2;
+    const dx = anchor.x - bubbleCenterX;
+    const dy = anchor.y - bubbleCenterY;
+
+    if (dx === 0 && dy === 0) return null;
+
+    const t = 1 / Math.sqrt((dx * dx) / (a * a) + (dy * dy) / (b * b));
+    const edgePoint = {
+        x: bubbleCenterX + t * dx,
+        y: bubbleCenterY + t * dy,
+    };
+
+    const totalDist = Math.sqrt(dx * dx + dy * dy);
+    const normDx = dx / totalDist;
+    const normDy = dy / totalDist;
+
+    const distToFirstCenter = THOUGHT_GAP + THOUGHT_LARGE_RADIUS;
+    const c1 = {
+        x: edgePoint.x + normDx * distToFirstCenter,
+        y: edgePoint.y + normDy * distToFirstCenter,
+        r: THOUGHT_LARGE_RADIUS,
+    };
+
+    const distBetweenCenters = THOUGHT_LARGE_RADIUS + THOUGHT_GAP + THOUGHT_SMALL_RADIUS;
+    const c2 = {
+        x: c1.x + normDx * distBetweenCenters,
+        y: c1.y + normDy * distBetweenCenters,
+        r: THOUGHT_SMALL_RADIUS,
+    };
+
+    return { type: 'thought_bubble', circles: [c1, c2] };
+};
+
+/**
+ * Computes the tail (speech) or trailing circles (thoughts) that connect a bubble to its anchor.
+ * All coordinates are in the same space as `bubble` and `anchor`.
+ */
+export const computeBubbleTail = (type: TextElement['type'], bubble: Rect, anchor: Point): BubbleTail | null => {
+    if (type === 'dialogue') return computeSpeechTail(bubble, anchor);
+    if (type === 'thoughts') return computeThoughtTrail(bubble, anchor);
+    return null;
+};
+
+export const circleToSvgPath = (c: TailCircle): string =>
+    `M ${c.x - c.r},${c.y} a ${c.r},${c.r} 0 1,1 ${c.r * 2},0 a ${c.r},${c.r} 0 1,1 -${c.r * 2},0`;
+
+export const tailToSvgPaths = (id: string, tail: BubbleTail): Array<{ id: string; d: string; type: BubbleTail['type'] }> => {
+    if (tail.type === 'tail') {
+        const [anchor, p1, p2] = tail.points;
+        return [{ id, d: `M${anchor.x},${anchor.y} L${p1.x},${p1.y} L${p2.x},${p2.y} Z`, type: 'tail' }];
+    }
+    return tail.circles.map((c, i) => ({ id: `${id}_t${i + 1}`, d: circleToSvgPath(c), type: 'thought_bubble' as const }));
+};
@@ -0,0 +1,52 @@
+import type { CharacterProfile, StoryOutline, StoryPagePrompt } from '../types';
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+export const findCharacter = (characters: CharacterProfile[], identifier?: string): CharacterProfile | undefined => {
+    if (!identifier) return undefined;
+    const key = normalizeName(identifier);
+    return characters.find(character => normalizeName(character.name) === key);
+};
+
+const mentionsName = (text: string, name: string): boolean => {
+    const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return escaped.length > 0 && new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+};
+
+// A character is on the page if the script lists them in a panel, gives them a line, or names them in a description
+export const getCharactersOnPage = (page: StoryPagePrompt, characters: CharacterProfile[]): CharacterProfile[] =>
+    characters.filter(character => page.panels.some(panel =>
+        panel.characters?.some(name => normalizeName(name) === normalizeName(character.name)) ||
+        panel.text_elements.some(el => findCharacter([character], el.character_identifier)) ||
+        mentionsName(panel.visual_description, character.name)
+    ));
+
+// Snaps the identifiers the model wrote back onto the exact cast names and drops unknown panel characters
+export const normalizeOutlineCharacters = (outline: StoryOutline, characters: CharacterProfile[]): StoryOutline => {
+    if (characters.length === 0) return outline;
+
+    return {
+        ...outline,
+        pages: outline.pages.map(page => ({
+            ...page,
+            panels: page.panels.map(panel => ({
+                ...panel,
+                characters: (panel.characters ?? [])
+                    .map(name => findCharacter(characters, name)?.name)
+                    .filter((name): name is string => !!name),
+                text_elements: panel.text_elements.map(el => {
+                    const character = findCharacter(characters, el.character_identifier);
+                    return character ? { ...el, character_identifier: character.name } : el;
+                }),
+            })),
+        })),
+    };
+};
+
+// Gives unnamed cast members a stable fallback name so they can still be referenced in prompts
+export const withCharacterNames = (characters: CharacterProfile[]): CharacterProfile[] =>
+    characters.map((character, i) => ({
+        ...character,
+        name: character.name.trim() || `Character ${i + 1}`,
+        description: character.description.trim(),
+    }));
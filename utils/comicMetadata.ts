@@ -0,0 +1,17 @@
+const MAX_TITLE_LENGTH = 60;
+
+// Derives a short human-readable title from the user's story prompt
+export const deriveComicTitle = (prompt: string): string => {
+    const firstSentence = prompt.trim().split(/(?<=[.!?])\s|\n/)[0]?.trim() || '';
+    if (!firstSentence) return 'Untitled Manga';
+    if (firstSentence.length <= MAX_TITLE_LENGTH) return firstSentence.replace(/[.!?]+$/, '');
+    return `${firstSentence.slice(0, MAX_TITLE_LENGTH).replace(/\s+\S*$/, '')}…`;
+};
+
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
@@ -0,0 +1,11 @@
+export const getDataUrlMimeType = (dataUrl: string): string =>
+    dataUrl.substring(dataUrl.indexOf(':') + 1, dataUrl.indexOf(';'));
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.split(',')[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
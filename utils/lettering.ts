@@ -0,0 +1,148 @@
+import type { TextElement } from '../types';
+import { parsePx } from './canvas';
+import { computeBubbleTail, type BubbleTail, type Rect } from './bubbleGeometry';
+
+// Mirrors the `.text-element` styles in index.html so exported pages match the editor.
+export interface BubbleStyle {
+    fontFamily: string;
+    fontStyle: 'normal' | 'italic';
+    fontWeight: number;
+    fontSize: number;
+    lineHeight: number; // multiplier of fontSize
+    letterSpacing: number;
+    paddingX: number;
+    paddingY: number;
+    borderWidth: number;
+    background: string; // solid export colour
+}
+
+export const BUBBLE_CLASS_NAMES: Record<TextElement['type'], string> = {
+    dialogue: 'speech',
+    narrative: 'narration',
+    thoughts: 'thought',
+};
+
+export const BUBBLE_MAX_WIDTH = 250;
+export const BUBBLE_BORDER_COLOR = '#18181b';
+export const BUBBLE_TEXT_COLOR = '#18181b';
+
+export const BUBBLE_STYLES: Record<TextElement['type'], BubbleStyle> = {
+    dialogue: {
+        fontFamily: 'EB Garamond',
+        fontStyle: 'italic',
+        fontWeight: 700,
+        fontSize: 16,
+        lineHeight: 1.23,
+        letterSpacing: 0.15,
+        paddingX: 12,
+        paddingY: 8,
+        borderWidth: 2,
+        background: '#ffffff',
+    },
+    narrative: {
+        fontFamily: 'EB Garamond',
+        fontStyle: 'normal',
+        fontWeight: 500,
+        fontSize: 16,
+        lineHeight: 1.38,
+        letterSpacing: 0,
+        paddingX: 12,
+        paddingY: 8,
+        borderWidth: 2,
+        background: '#f8fafc',
+    },
+    thoughts: {
+        fontFamily: 'Libre Baskerville',
+        fontStyle: 'italic',
+        fontWeight: 400,
+        fontSize: 16,
+        lineHeight: 1.45,
+        letterSpacing: 0.15,
+        paddingX: 20,
+        paddingY: 12,
+        borderWidth: 2,
+        background: '#ffffff',
+    },
+};
+
+export interface BubbleLayout {
+    element: TextElement;
+    style: BubbleStyle;
+    rect: Rect; // Outer box including padding and border
+    lines: string[];
+    tail: BubbleTail | null;
+}
+
+export type TextMeasurer = (text: string, style: BubbleStyle) => number;
+
+export const toCanvasFont = (style: BubbleStyle): string =>
+    `${style.fontStyle} ${style.fontWeight} ${style.fontSize}px "${style.fontFamily}"`;
+
+export const createCanvasTextMeasurer = (): TextMeasurer => {
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    return (text, style) => {
+        ctx.font = toCanvasFont(style);
+        return ctx.measureText(text).width + style.letterSpacing * text.length;
+    };
+};
+
+const wrapParagraph = (paragraph: string, maxWidth: number, style: BubbleStyle, measure: TextMeasurer): string[] => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [''];
+
+    const lines: string[] = [];
+    let current = words[0];
+    for (const word of words.slice(1)) {
+        const candidate = `${current} ${word}`;
+        if (measure(candidate, style) <= maxWidth) {
+            current = candidate;
+        } else {
+            lines.push(current);
+            current = word;
+        }
+    }
+    lines.push(current);
+    return lines;
+};
+
+/**
+ * Lays out a text element the same way the browser sizes the absolutely positioned
+ * bubble in the editor: shrink-to-fit up to BUBBLE_MAX_WIDTH (border-box), wrapping on spaces.
+ */
+export const layoutBubble = (element: TextElement, measure: TextMeasurer): BubbleLayout => {
+    const style = BUBBLE_STYLES[element.type];
+    const chrome = (style.paddingX + style.borderWidth) * 2;
+    const maxContentWidth = BUBBLE_MAX_WIDTH - chrome;
+
+    const paragraphs = element.text.split('\n');
+    const lines = paragraphs.flatMap(p => wrapParagraph(p, maxContentWidth, style, measure));
+    const contentWidth = Math.min(maxContentWidth, Math.max(0, ...lines.map(line => measure(line, style))));
+
+    const rect: Rect = {
+        x: parsePx(element.x),
+        y: parsePx(element.y),
+        width: Math.ceil(contentWidth) + chrome,
+        height: lines.length * style.fontSize * style.lineHeight + (style.paddingY + style.borderWidth) * 2,
+    };
+
+    const tail = element.anchor
+        ? computeBubbleTail(element.type, rect, { x: parsePx(element.anchor.x), y: parsePx(element.anchor.y) })
+        : null;
+
+    return { element, style, rect, lines, tail };
+};
+
+// Make sure the lettering webfonts are ready before measuring or drawing with them.
+export const loadLetteringFonts = async (): Promise<void> => {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    await Promise.all(
+        Object.values(BUBBLE_STYLES).map(style => document.fonts.load(toCanvasFont(style)).catch(() => []))
+    );
+};
+
+export const layoutPageBubbles = async (textElements: TextElement[]): Promise<BubbleLayout[]> => {
+    await loadLetteringFonts();
+    const measure = createCanvasTextMeasurer();
+    return textElements.map(el => layoutBubble(el, measure));
+};
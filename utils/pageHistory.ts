@@ -0,0 +1,34 @@
+import { nanoid } from 'nanoid';
+import type { ComicPage, PageVersion } from '../types';
+
+export const PAGE_VERSION_LABELS: Record<PageVersion['source'], string> = {
+    generated: 'Generated',
+    regenerated: 'Regenerated',
+    panel: 'Panel redrawn',
+    candidate: 'Candidate swap',
+};
+
+// A page's history starts with its first drawing, which is only stored once a second version is added
+export const getPageHistory = (page: ComicPage): PageVersion[] => {
+    if (page.history && page.history.length > 0) return page.history;
+    if (!page.imageUrl) return [];
+    return [{ id: `${page.id}-original`, imageUrl: page.imageUrl, source: 'generated' }];
+};
+
+// Makes new art the page's current image and appends it to the page's history
+export const withNewVersion = (
+    page: ComicPage,
+    imageUrl: string,
+    details: Pick<PageVersion, 'source' | 'annotationText' | 'annotatedSnapshot'>,
+): ComicPage => ({
+    ...page,
+    imageUrl,
+    history: [
+        ...getPageHistory(page),
+        { id: nanoid(), imageUrl, createdAt: new Date().toISOString(), ...details },
+    ],
+});
+
+export const getActiveVersion = (page: ComicPage, history: PageVersion[] = getPageHistory(page)): PageVersion | undefined =>
+    // The latest match wins, since restoring doesn't add a version
+    [...history].reverse().find(version => version.imageUrl === page.imageUrl);
@@ -0,0 +1,27 @@
+import { nanoid } from 'nanoid';
+import type { ComicPage } from '../types';
+
+// Page numbers always follow the page's position in the comic
+export const renumberPages = (pages: ComicPage[]): ComicPage[] =>
+    pages.map((page, index) =>
+        page.storyPrompt.page_number === index + 1
+            ? page
+            : { ...page, storyPrompt: { ...page.storyPrompt, page_number: index + 1 } });
+
+export const movePage = (pages: ComicPage[], from: number, to: number): ComicPage[] => {
+    if (from === to || to < 0 || to >= pages.length) return pages;
+    const next = [...pages];
+    const [page] = next.splice(from, 1);
+    next.splice(to, 0, page);
+    return renumberPages(next);
+};
+
+export const insertPage = (pages: ComicPage[], index: number, page: ComicPage): ComicPage[] =>
+    renumberPages([...pages.slice(0, index), page, ...pages.slice(index)]);
+
+// A copy gets new ids for itself and its bubbles so edits to one don't touch the other
+export const copyPage = (page: ComicPage): ComicPage => ({
+    ...page,
+    id: nanoid(),
+    textElements: page.textElements.map(el => ({ ...el, id: nanoid() })),
+});
@@ -0,0 +1,127 @@
+import type { ComicPage } from '../types';
+import { BUBBLE_BORDER_COLOR, BUBBLE_TEXT_COLOR, layoutPageBubbles, toCanvasFont, type BubbleLayout } from './lettering';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load page image.'));
+        img.src = src;
+    });
+
+// Same fit as the editor's `object-contain` image
+export const drawImageContained = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) => {
+    const scale = Math.min(width / img.naturalWidth, height / img.naturalHeight);
+    const drawWidth = img.naturalWidth * scale;
+    const drawHeight = img.naturalHeight * scale;
+    ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const traceBubbleShape = (ctx: CanvasRenderingContext2D, layout: BubbleLayout) => {
+    const inset = layout.style.borderWidth / 2;
+    const x = layout.rect.x + inset;
+    const y = layout.rect.y + inset;
+    const width = layout.rect.width - layout.style.borderWidth;
+    const height = layout.rect.height - layout.style.borderWidth;
+
+    ctx.beginPath();
+    switch (layout.element.type) {
+        case 'dialogue':
+            ctx.roundRect(x, y, width, height, 12);
+            break;
+        case 'thoughts':
+            // border-radius: 50% / 40%
+            ctx.roundRect(x, y, width, height, [{ x: width / 2, y: height * 0.4 }]);
+            break;
+        case 'narrative':
+            ctx.rect(x, y, width, height);
+            break;
+    }
+};
+
+const drawTail = (ctx: CanvasRenderingContext2D, layout: BubbleLayout) => {
+    const { tail } = layout;
+    if (!tail) return;
+
+    ctx.save();
+    ctx.fillStyle = layout.style.background;
+    ctx.strokeStyle = BUBBLE_BORDER_COLOR;
+    ctx.lineWidth = 2;
+    if (tail.type === 'tail') {
+        const [anchor, p1, p2] = tail.points;
+        ctx.beginPath();
+        ctx.moveTo(anchor.x, anchor.y);
+        ctx.lineTo(p1.x, p1.y);
+        ctx.lineTo(p2.x, p2.y);
+        ctx.closePath();
+        ctx.fill();
+        ctx.stroke();
+    } else {
+        ctx.setLineDash([4, 4]);
+        tail.circles.forEach(c => {
+            ctx.beginPath();
+            ctx.arc(c.x, c.y, c.r, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.stroke();
+        });
+    }
+    ctx.restore();
+};
+
+const drawBubble = (ctx: CanvasRenderingContext2D, layout: BubbleLayout) => {
+    const { style, rect, lines } = layout;
+
+    ctx.save();
+    traceBubbleShape(ctx, layout);
+    ctx.fillStyle = style.background;
+    ctx.fill();
+    ctx.strokeStyle = BUBBLE_BORDER_COLOR;
+    ctx.lineWidth = style.borderWidth;
+    if (layout.element.type === 'thoughts') ctx.setLineDash([6, 4]);
+    ctx.stroke();
+    ctx.restore();
+
+    ctx.save();
+    ctx.font = toCanvasFont(style);
+    ctx.letterSpacing = `${style.letterSpacing}px`;
+    ctx.fillStyle = BUBBLE_TEXT_COLOR;
+    ctx.textBaseline = 'middle';
+    const lineHeight = style.fontSize * style.lineHeight;
+    const textX = rect.x + style.borderWidth + style.paddingX;
+    const textY = rect.y + style.borderWidth + style.paddingY;
+    lines.forEach((line, i) => {
+        ctx.fillText(line, textX, textY + lineHeight * i + lineHeight / 2);
+    });
+    ctx.restore();
+};
+
+/**
+ * Flattens a page's artwork and lettering into a single canvas, without touching the editor DOM.
+ */
+export const renderPageToCanvas = async (page: ComicPage): Promise<HTMLCanvasElement> => {
+    const canvas = document.createElement('canvas');
+    const { width, height } = page.size;
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+
+    const img = await loadImage(page.imageUrl);
+    drawImageContained(ctx, img, width, height);
+
+    const layouts = await layoutPageBubbles(page.textElements);
+    // Tails sit underneath the bubbles, like the SVG layer in the editor
+    layouts.forEach(layout => drawTail(ctx, layout));
+    layouts.forEach(layout => drawBubble(ctx, layout));
+
+    return canvas;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode page image.')), mimeType, quality);
+    });
@@ -0,0 +1,23 @@
+import type { PageSize } from '../types';
+
+export interface PageSizePreset {
+    id: string;
+    label: string;
+    summary: string;
+    size: PageSize;
+}
+
+// The long side stays at 1024px so lettering keeps the same scale on every format
+export const PAGE_SIZE_PRESETS: PageSizePreset[] = [
+    { id: 'square', label: 'Square', summary: 'Social posts', size: { width: 1024, height: 1024 } },
+    { id: 'manga-b5', label: 'Manga Portrait', summary: 'B5 tankōbon ratio', size: { width: 725, height: 1024 } },
+    { id: 'landscape-strip', label: 'Landscape Strip', summary: '16:9 horizontal strip', size: { width: 1024, height: 576 } },
+];
+
+export const DEFAULT_PAGE_SIZE: PageSize = PAGE_SIZE_PRESETS[0].size;
+
+export const getPageOrientation = (size: PageSize): 'square' | 'portrait' | 'landscape' =>
+    size.width === size.height ? 'square' : size.width > size.height ? 'landscape' : 'portrait';
+
+export const isPageSize = (value: any): value is PageSize =>
+    !!value && Number.isFinite(value.width) && Number.isFinite(value.height) && value.width > 0 && value.height > 0;
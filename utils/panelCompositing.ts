@@ -0,0 +1,83 @@
+import type { PageSize } from '../types';
+import type { PanelRect } from './panelLayouts';
+import { loadImage } from './pageRenderer';
+
+// Width of the soft seam, as a share of the panel's shorter side
+const FEATHER_FRACTION = 0.04;
+const MIN_FEATHER = 3;
+const MAX_FEATHER = 24;
+
+// Maps a page-pixel region onto the image's own pixels, using the editor's `object-contain` fit
+const toImageRegion = (img: HTMLImageElement, region: PanelRect, pageSize: PageSize): PanelRect => {
+    const scale = Math.min(pageSize.width / img.naturalWidth, pageSize.height / img.naturalHeight);
+    const offsetX = (pageSize.width - img.naturalWidth * scale) / 2;
+    const offsetY = (pageSize.height - img.naturalHeight * scale) / 2;
+
+    const left = Math.max(0, Math.round((region.x - offsetX) / scale));
+    const top = Math.max(0, Math.round((region.y - offsetY) / scale));
+    const right = Math.min(img.naturalWidth, Math.round((region.x + region.width - offsetX) / scale));
+    const bottom = Math.min(img.naturalHeight, Math.round((region.y + region.height - offsetY) / scale));
+    return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get canvas context.');
+    return { canvas, ctx };
+};
+
+// Cuts a page-pixel region out of an image, at the image's full resolution
+export const cropImageRegion = async (imageUrl: string, region: PanelRect, pageSize: PageSize): Promise<string> => {
+    const img = await loadImage(imageUrl);
+    const crop = toImageRegion(img, region, pageSize);
+    if (crop.width === 0 || crop.height === 0) throw new Error('The selected panel is outside the page image.');
+
+    const { canvas, ctx } = createCanvas(crop.width, crop.height);
+    ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height);
+    return canvas.toDataURL('image/png');
+};
+
+// Pastes a redrawn panel over the same region of the page. Only that region changes; its edges
+// fade into the original art, except where the region touches the border of the image.
+export const compositePanel = async (baseUrl: string, patchUrl: string, region: PanelRect, pageSize: PageSize): Promise<string> => {
+    const [base, patch] = await Promise.all([loadImage(baseUrl), loadImage(patchUrl)]);
+    const target = toImageRegion(base, region, pageSize);
+    if (target.width === 0 || target.height === 0) throw new Error('The selected panel is outside the page image.');
+
+    const { canvas, ctx } = createCanvas(base.naturalWidth, base.naturalHeight);
+    ctx.drawImage(base, 0, 0);
+
+    const { ctx: patchCtx } = createCanvas(target.width, target.height);
+    patchCtx.drawImage(patch, 0, 0, target.width, target.height);
+    const patchPixels = patchCtx.getImageData(0, 0, target.width, target.height).data;
+    const original = ctx.getImageData(target.x, target.y, target.width, target.height);
+    const pixels = original.data;
+
+    const feather = Math.min(MAX_FEATHER, Math.max(MIN_FEATHER, Math.round(Math.min(target.width, target.height) * FEATHER_FRACTION)));
+    const blendLeft = target.x > 0;
+    const blendTop = target.y > 0;
+    const blendRight = target.x + target.width < base.naturalWidth;
+    const blendBottom = target.y + target.height < base.naturalHeight;
+
+    for (let y = 0; y < target.height; y++) {
+        for (let x = 0; x < target.width; x++) {
+            const edgeDistance = Math.min(
+                blendLeft ? x : Infinity,
+                blendTop ? y : Infinity,
+                blendRight ? target.width - 1 - x : Infinity,
+                blendBottom ? target.height - 1 - y : Infinity,
+            );
+            const alpha = Math.min(1, (edgeDistance + 0.5) / feather);
+            const i = (y * target.width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                pixels[i + c] = Math.round(pixels[i + c] * (1 - alpha) + patchPixels[i + c] * alpha);
+            }
+        }
+    }
+
+    ctx.putImageData(original, target.x, target.y);
+    return canvas.toDataURL('image/png');
+};
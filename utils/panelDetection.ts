@@ -0,0 +1,157 @@
+import type { PageSize } from '../types';
+import type { PanelRect } from './panelLayouts';
+import { drawImageContained, loadImage } from './pageRenderer';
+
+// Pages are analysed at this width, which is plenty to find gutters and keeps the scan cheap
+const ANALYSIS_WIDTH = 512;
+const DARK_LUMINANCE = 60;
+const LIGHT_LUMINANCE = 235;
+// Share of a line that must be gutter-coloured; the rest allows for stray ink and JPEG noise
+const GUTTER_LINE_COVERAGE = 0.97;
+const MIN_GUTTER_THICKNESS = 2;
+// Anything thinner than this share of the page is a sliver of art, not a panel
+const MIN_PANEL_FRACTION = 0.08;
+
+interface LuminanceMap {
+    width: number;
+    height: number;
+    dark: Uint8Array;
+    light: Uint8Array;
+}
+
+const readLuminance = async (imageUrl: string, analysisSize: PageSize): Promise<LuminanceMap> => {
+    const img = await loadImage(imageUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = analysisSize.width;
+    canvas.height = analysisSize.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+
+    // Same fit as the editor, so detected panels line up with the lettering's page coordinates
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    drawImageContained(ctx, img, canvas.width, canvas.height);
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const pixelCount = canvas.width * canvas.height;
+    const dark = new Uint8Array(pixelCount);
+    const light = new Uint8Array(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+        const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+        dark[i] = luminance <= DARK_LUMINANCE ? 1 : 0;
+        light[i] = luminance >= LIGHT_LUMINANCE ? 1 : 0;
+    }
+    return { width: canvas.width, height: canvas.height, dark, light };
+};
+
+// A gutter line is almost entirely black (inked gutters) or almost entirely white (paper gutters)
+const isGutterLine = (map: LuminanceMap, region: PanelRect, index: number, axis: 'row' | 'column'): boolean => {
+    const length = axis === 'row' ? region.width : region.height;
+    let dark = 0;
+    let light = 0;
+    for (let i = 0; i < length; i++) {
+        const x = axis === 'row' ? region.x + i : index;
+        const y = axis === 'row' ? index : region.y + i;
+        const offset = y * map.width + x;
+        dark += map.dark[offset];
+        light += map.light[offset];
+    }
+    return Math.max(dark, light) >= length * GUTTER_LINE_COVERAGE;
+};
+
+// Shrinks a region past the gutters and page margins around its edges
+const trimRegion = (map: LuminanceMap, region: PanelRect): PanelRect => {
+    let { x, y, width, height } = region;
+    while (height > 0 && isGutterLine(map, { x, y, width, height }, y, 'row')) { y++; height--; }
+    while (height > 0 && isGutterLine(map, { x, y, width, height }, y + height - 1, 'row')) height--;
+    while (width > 0 && isGutterLine(map, { x, y, width, height }, x, 'column')) { x++; width--; }
+    while (width > 0 && isGutterLine(map, { x, y, width, height }, x + width - 1, 'column')) width--;
+    return { x, y, width, height };
+};
+
+// Splits a trimmed region at every gutter band that crosses it completely along one axis
+const splitRegion = (map: LuminanceMap, region: PanelRect, axis: 'row' | 'column'): PanelRect[] => {
+    const start = axis === 'row' ? region.y : region.x;
+    const end = start + (axis === 'row' ? region.height : region.width);
+    const segments: PanelRect[] = [];
+    let segmentStart = start;
+    let gutterStart: number | null = null;
+
+    const closeSegment = (segmentEnd: number) => {
+        if (segmentEnd <= segmentStart) return;
+        segments.push(axis === 'row'
+            ? { x: region.x, y: segmentStart, width: region.width, height: segmentEnd - segmentStart }
+            : { x: segmentStart, y: region.y, width: segmentEnd - segmentStart, height: region.height });
+    };
+
+    for (let i = start; i < end; i++) {
+        if (isGutterLine(map, region, i, axis)) {
+            if (gutterStart === null) gutterStart = i;
+            continue;
+        }
+        if (gutterStart !== null && i - gutterStart >= MIN_GUTTER_THICKNESS) {
+            closeSegment(gutterStart);
+            segmentStart = i;
+        }
+        gutterStart = null;
+    }
+    closeSegment(end);
+    return segments;
+};
+
+// Recursive XY-cut: rows first, then columns within each row, which yields panels in reading order
+const cutRegion = (map: LuminanceMap, region: PanelRect): PanelRect[] => {
+    const trimmed = trimRegion(map, region);
+    if (trimmed.width < map.width * MIN_PANEL_FRACTION || trimmed.height < map.height * MIN_PANEL_FRACTION) return [];
+
+    for (const axis of ['row', 'column'] as const) {
+        const segments = splitRegion(map, trimmed, axis);
+        if (segments.length > 1) return segments.flatMap(segment => cutRegion(map, segment));
+    }
+    return [trimmed];
+};
+
+// Finds the panels of a generated page from its gutters, in page pixels and reading order.
+// Returns an empty list when the image can't be analysed so callers can fall back to the layout.
+export const detectPanels = async (imageUrl: string, pageSize: PageSize): Promise<PanelRect[]> => {
+    const scale = Math.min(1, ANALYSIS_WIDTH / pageSize.width);
+    const analysisSize = { width: Math.round(pageSize.width * scale), height: Math.round(pageSize.height * scale) };
+
+    try {
+        const map = await readLuminance(imageUrl, analysisSize);
+        const panels = cutRegion(map, { x: 0, y: 0, width: map.width, height: map.height });
+        return panels.map(panel => ({
+            x: Math.round(panel.x / scale),
+            y: Math.round(panel.y / scale),
+            width: Math.round(panel.width / scale),
+            height: Math.round(panel.height / scale),
+        }));
+    } catch (e) {
+        console.warn('⚠️ [Panel Detection] Could not analyse page image:', e);
+        return [];
+    }
+};
+
+const overlapArea = (a: PanelRect, b: PanelRect): number =>
+    Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+    Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+// The panel that most of a box sits over, if any
+export const findPanelForBox = (panels: PanelRect[], box: PanelRect): PanelRect | undefined => {
+    let best: PanelRect | undefined;
+    let bestArea = 0;
+    for (const panel of panels) {
+        const area = overlapArea(panel, box);
+        if (area > bestArea) {
+            best = panel;
+            bestArea = area;
+        }
+    }
+    return best;
+};
+
+// Moves a box fully inside a panel; a box bigger than the panel is pinned to its top-left corner
+export const clampBoxToPanel = (box: PanelRect, panel: PanelRect): { x: number; y: number } => ({
+    x: Math.max(panel.x, Math.min(box.x, panel.x + panel.width - box.width)),
+    y: Math.max(panel.y, Math.min(box.y, panel.y + panel.height - box.height)),
+});
@@ -0,0 +1,141 @@
+import type { PageSize, PanelLayoutId } from '../types';
+
+export interface PanelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PanelLayout {
+    id: PanelLayoutId;
+    label: string;
+    panelCount: number;
+    prompt: string; // How the artist should arrange the panels, in reading order
+    regions: PanelRect[]; // Panel areas as fractions of the page, in panel order
+}
+
+export const PANEL_LAYOUTS: PanelLayout[] = [
+    {
+        id: 'splash',
+        label: 'Splash page',
+        panelCount: 1,
+        prompt: 'a single full-bleed splash panel that fills the entire page, with no gutters',
+        regions: [{ x: 0, y: 0, width: 1, height: 1 }],
+    },
+    {
+        id: 'two-rows',
+        label: '2 rows',
+        panelCount: 2,
+        prompt: 'two wide panels stacked vertically: panel 1 fills the top half and panel 2 the bottom half',
+        regions: [
+            { x: 0, y: 0, width: 1, height: 0.5 },
+            { x: 0, y: 0.5, width: 1, height: 0.5 },
+        ],
+    },
+    {
+        id: 'two-columns',
+        label: '2 columns',
+        panelCount: 2,
+        prompt: 'two tall panels side by side: panel 1 fills the left half and panel 2 the right half',
+        regions: [
+            { x: 0, y: 0, width: 0.5, height: 1 },
+            { x: 0.5, y: 0, width: 0.5, height: 1 },
+        ],
+    },
+    {
+        id: 'inset',
+        label: 'Inset',
+        panelCount: 2,
+        prompt: 'panel 1 fills the whole page and panel 2 is a smaller inset panel with a thick black border overlapping the bottom-right corner (about a third of the page wide and tall)',
+        regions: [
+            { x: 0, y: 0, width: 1, height: 1 },
+            { x: 0.62, y: 0.62, width: 0.34, height: 0.34 },
+        ],
+    },
+    {
+        id: 'three-rows',
+        label: '3 rows',
+        panelCount: 3,
+        prompt: 'three wide panels stacked vertically, each a third of the page tall, read top to bottom',
+        regions: [
+            { x: 0, y: 0, width: 1, height: 1 / 3 },
+            { x: 0, y: 1 / 3, width: 1, height: 1 / 3 },
+            { x: 0, y: 2 / 3, width: 1, height: 1 / 3 },
+        ],
+    },
+    {
+        id: 'l-shaped',
+        label: 'L-shaped',
+        panelCount: 3,
+        prompt: 'an L-shaped arrangement: panel 1 is a tall panel down the left 60% of the page, panel 2 sits at the top right and panel 3 at the bottom right, each half the page tall',
+        regions: [
+            { x: 0, y: 0, width: 0.6, height: 1 },
+            { x: 0.6, y: 0, width: 0.4, height: 0.5 },
+            { x: 0.6, y: 0.5, width: 0.4, height: 0.5 },
+        ],
+    },
+    {
+        id: 'grid-2x2',
+        label: '2x2 grid',
+        panelCount: 4,
+        prompt: 'a 2x2 grid of four equal panels, read left to right then top to bottom (panel 1 top-left, 2 top-right, 3 bottom-left, 4 bottom-right)',
+        regions: [
+            { x: 0, y: 0, width: 0.5, height: 0.5 },
+            { x: 0.5, y: 0, width: 0.5, height: 0.5 },
+            { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+            { x: 0.5, y: 0.5, width: 0.5, height: 0.5 },
+        ],
+    },
+    {
+        id: 'four-koma',
+        label: '4-koma',
+        panelCount: 4,
+        prompt: 'a 4-koma vertical strip: four equal wide panels stacked in a single column, each a quarter of the page tall, read top to bottom',
+        regions: [0, 1, 2, 3].map(i => ({ x: 0, y: i / 4, width: 1, height: 1 / 4 })),
+    },
+];
+
+export const MAX_PANELS_PER_LAYOUT = Math.max(...PANEL_LAYOUTS.map(layout => layout.panelCount));
+
+export const getPanelLayout = (id?: PanelLayoutId): PanelLayout | undefined =>
+    PANEL_LAYOUTS.find(layout => layout.id === id);
+
+export const getDefaultLayoutForPanelCount = (panelCount: number): PanelLayout =>
+    PANEL_LAYOUTS.find(layout => layout.panelCount === panelCount) ?? PANEL_LAYOUTS.find(layout => layout.panelCount === 2)!;
+
+// Keeps a page's layout when it fits its panels, otherwise falls back to the standard layout for that panel count
+export const resolvePanelLayout = (id: PanelLayoutId | undefined, panelCount: number): PanelLayout => {
+    const layout = getPanelLayout(id);
+    return layout && layout.panelCount === panelCount ? layout : getDefaultLayoutForPanelCount(panelCount);
+};
+
+const isInsetRegion = (layout: PanelLayout, region: PanelRect): boolean =>
+    layout.regions.some(other =>
+        other !== region &&
+        other.x <= region.x && other.y <= region.y &&
+        other.x + other.width >= region.x + region.width &&
+        other.y + other.height >= region.y + region.height
+    );
+
+// Panels that sit inside another panel (insets) share its gutters, so gutter detection sees one panel for both
+export const getSeparatePanelCount = (layout: PanelLayout): number =>
+    layout.regions.filter(region => !isInsetRegion(layout, region)).length;
+
+// Panel rectangles in page pixels
+export const getLayoutPanelRects = (layout: PanelLayout, pageSize: PageSize): PanelRect[] =>
+    layout.regions.map(region => ({
+        x: Math.round(region.x * pageSize.width),
+        y: Math.round(region.y * pageSize.height),
+        width: Math.round(region.width * pageSize.width),
+        height: Math.round(region.height * pageSize.height),
+    }));
+
+// One rectangle per layout panel: the detected panels (in reading order) for the separate panels,
+// and the layout's own bounds for insets, which detection can't see
+export const mergeInsetPanels = (layout: PanelLayout, separatePanels: PanelRect[], pageSize: PageSize): PanelRect[] => {
+    const layoutRects = getLayoutPanelRects(layout, pageSize);
+    let next = 0;
+    return layout.regions.map((region, index) =>
+        isInsetRegion(layout, region) ? layoutRects[index] : separatePanels[next++]);
+};
@@ -0,0 +1,152 @@
+import type { Point, Rect } from './bubbleGeometry';
+
+export interface BubblePlacementRequest {
+    panelIndex: number; // Index into the page's panels; bubbles are given in reading order
+    width: number;
+    height: number;
+    preferred?: Point; // Suggested top-left corner, e.g. from the model
+    anchor?: Point; // The speaker the bubble's tail points at
+}
+
+const PANEL_PADDING = 8;
+const BUBBLE_GAP = 8;
+const GRID_STEP = 16;
+// Bubbles without a suggestion sit this far above their speaker so the tail has room
+const TAIL_CLEARANCE = 80;
+// Speakers within this distance of an anchor should stay visible
+const ANCHOR_KEEP_OUT_RADIUS = 60;
+// Bubbles whose tops are this close count as the same row when checking reading order
+const READING_ROW_TOLERANCE = 24;
+// Lettering stays out of this band along the page edges, where it could be trimmed
+const PAGE_MARGIN = 24;
+// Width of the keep-out band over a shared panel edge, covering the gutter and the panel border
+const GUTTER_KEEP_OUT = 16;
+
+// Costs are in pixels of distance from the target position
+const OVERLAP_COST = 10000;
+const KEEP_OUT_COST = 2000;
+const READING_ORDER_COST = 1000;
+
+const overlapArea = (a: Rect, b: Rect): number =>
+    Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)) *
+    Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+
+const inflate = (rect: Rect, amount: number): Rect => ({
+    x: rect.x - amount,
+    y: rect.y - amount,
+    width: rect.width + amount * 2,
+    height: rect.height + amount * 2,
+});
+
+const containsMostOf = (outer: Rect, inner: Rect): boolean =>
+    outer !== inner && overlapArea(outer, inner) > inner.width * inner.height * 0.9;
+
+/**
+ * The keep-out regions every page has, whatever its art: the page margins, the gutters along panel
+ * edges inside the page, and inset panels so bubbles in the panel around them don't cover them.
+ */
+export const getLayoutKeepOut = (panels: Rect[], pageSize: { width: number; height: number }): Rect[] => {
+    const margins: Rect[] = [
+        { x: 0, y: 0, width: pageSize.width, height: PAGE_MARGIN },
+        { x: 0, y: pageSize.height - PAGE_MARGIN, width: pageSize.width, height: PAGE_MARGIN },
+        { x: 0, y: 0, width: PAGE_MARGIN, height: pageSize.height },
+        { x: pageSize.width - PAGE_MARGIN, y: 0, width: PAGE_MARGIN, height: pageSize.height },
+    ];
+    const half = GUTTER_KEEP_OUT / 2;
+    const gutters = panels.flatMap(panel => {
+        const right = panel.x + panel.width;
+        const bottom = panel.y + panel.height;
+        return [
+            panel.x > PAGE_MARGIN && { x: panel.x - half, y: panel.y, width: GUTTER_KEEP_OUT, height: panel.height },
+            right < pageSize.width - PAGE_MARGIN && { x: right - half, y: panel.y, width: GUTTER_KEEP_OUT, height: panel.height },
+            panel.y > PAGE_MARGIN && { x: panel.x, y: panel.y - half, width: panel.width, height: GUTTER_KEEP_OUT },
+            bottom < pageSize.height - PAGE_MARGIN && { x: panel.x, y: bottom - half, width: panel.width, height: GUTTER_KEEP_OUT },
+        ].filter((rect): rect is Rect => !!rect);
+    });
+    const insets = panels.filter(panel => panels.some(other => containsMostOf(other, panel)));
+    return [...margins, ...gutters, ...insets];
+};
+
+// Every position a bubble can take inside a panel, plus the exact target so a good suggestion is kept as is
+const candidatePositions = (panel: Rect, width: number, height: number, target: Point): Point[] => {
+    const minX = panel.x + PANEL_PADDING;
+    const minY = panel.y + PANEL_PADDING;
+    const maxX = Math.max(minX, panel.x + panel.width - PANEL_PADDING - width);
+    const maxY = Math.max(minY, panel.y + panel.height - PANEL_PADDING - height);
+
+    const positions: Point[] = [{
+        x: Math.round(Math.max(minX, Math.min(target.x, maxX))),
+        y: Math.round(Math.max(minY, Math.min(target.y, maxY))),
+    }];
+    for (let y = minY; y <= maxY; y += GRID_STEP) {
+        for (let x = minX; x <= maxX; x += GRID_STEP) {
+            positions.push({ x, y });
+        }
+        positions.push({ x: maxX, y });
+    }
+    for (let x = minX; x <= maxX; x += GRID_STEP) positions.push({ x, y: maxY });
+    return positions;
+};
+
+const targetFor = (bubble: BubblePlacementRequest, panel: Rect): Point => {
+    if (bubble.preferred) return bubble.preferred;
+    if (bubble.anchor) return { x: bubble.anchor.x - bubble.width / 2, y: bubble.anchor.y - bubble.height - TAIL_CLEARANCE };
+    return { x: panel.x, y: panel.y };
+};
+
+// Later bubbles in a panel must not start above, or on the same row to the left of, the one read before them
+const breaksReadingOrder = (position: Point, previous: Point | undefined): boolean => {
+    if (!previous) return false;
+    if (position.y < previous.y - READING_ROW_TOLERANCE) return true;
+    return Math.abs(position.y - previous.y) <= READING_ROW_TOLERANCE && position.x < previous.x;
+};
+
+/**
+ * Places lettering deterministically: every bubble stays inside its panel, avoids the other bubbles
+ * and the keep-out regions, follows reading order, and otherwise stays as close as it can to its
+ * suggested position (or above its speaker when there is no suggestion). Returns top-left corners.
+ */
+export const solveTextPlacement = (panels: Rect[], bubbles: BubblePlacementRequest[], keepOut: Rect[] = []): Point[] => {
+    const placed: Rect[] = [];
+    const lastInPanel = new Map<number, Point>();
+
+    // Speakers are kept clear of every bubble, not just their own
+    const avoid = [
+        ...keepOut,
+        ...bubbles.flatMap(bubble => bubble.anchor ? [{
+            x: bubble.anchor.x - ANCHOR_KEEP_OUT_RADIUS,
+            y: bubble.anchor.y - ANCHOR_KEEP_OUT_RADIUS,
+            width: ANCHOR_KEEP_OUT_RADIUS * 2,
+            height: ANCHOR_KEEP_OUT_RADIUS * 2,
+        }] : []),
+    ];
+
+    return bubbles.map(bubble => {
+        const panelIndex = Math.max(0, Math.min(bubble.panelIndex, panels.length - 1));
+        const panel = panels[panelIndex];
+        const target = targetFor(bubble, panel);
+        const area = Math.max(1, bubble.width * bubble.height);
+
+        let best: Point = { x: panel.x, y: panel.y };
+        let bestCost = Infinity;
+        for (const position of candidatePositions(panel, bubble.width, bubble.height, target)) {
+            const box = { ...position, width: bubble.width, height: bubble.height };
+            const padded = inflate(box, BUBBLE_GAP);
+            const overlap = placed.reduce((sum, other) => sum + overlapArea(padded, other), 0);
+            const covered = avoid.reduce((sum, region) => sum + overlapArea(box, region), 0);
+            const cost =
+                Math.hypot(position.x - target.x, position.y - target.y) +
+                (overlap / area) * OVERLAP_COST +
+                (covered / area) * KEEP_OUT_COST +
+                (breaksReadingOrder(position, lastInPanel.get(panelIndex)) ? READING_ORDER_COST : 0);
+            if (cost < bestCost) {
+                best = position;
+                bestCost = cost;
+            }
+        }
+
+        placed.push({ ...best, width: bubble.width, height: bubble.height });
+        lastInPanel.set(panelIndex, best);
+        return best;
+    });
+};
@@ -0,0 +1,32 @@
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight. A worker picks up
+ * the next item as soon as it finishes its current one, so a slow item never holds up a
+ * whole batch. Results keep the order of `items`.
+ *
+ * The first failure rejects the returned promise; remaining workers stop taking new items.
+ */
+export const runWorkerPool = async <T, R>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+    let failed = false;
+
+    const runWorker = async () => {
+        while (!failed && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = await worker(items[index], index);
+            } catch (e) {
+                failed = true;
+                throw e;
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+    await Promise.all(Array.from({ length: workerCount }, runWorker));
+    return results;
+};
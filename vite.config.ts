@@ -8,7 +8,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER),
+        'process.env.AI_CALL_MODE': JSON.stringify(env.AI_CALL_MODE),
+        'process.env.AI_FIXTURE_URL': JSON.stringify(env.AI_FIXTURE_URL),
+        'process.env.PAGE_CONCURRENCY': JSON.stringify(env.PAGE_CONCURRENCY),
+        'process.env.VERIFY_PASS_THRESHOLD': JSON.stringify(env.VERIFY_PASS_THRESHOLD),
+        'process.env.VERIFY_MAX_ATTEMPTS': JSON.stringify(env.VERIFY_MAX_ATTEMPTS)
       },
       resolve: {
         alias: {